@@ -5,6 +5,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Calendar from "./pages/Calendar";
+import Project from "./pages/Project";
+import Settings from "./pages/Settings";
+import Notifications from "./pages/Notifications";
+import EmailTemplates from "./pages/EmailTemplates";
+import Unsubscribe from "./pages/Unsubscribe";
+import Invite from "./pages/Invite";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,6 +24,12 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/calendar" element={<Calendar />} />
+          <Route path="/projects/:id" element={<Project />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/notifications" element={<Notifications />} />
+          <Route path="/notifications/templates" element={<EmailTemplates />} />
+          <Route path="/unsubscribe" element={<Unsubscribe />} />
+          <Route path="/invite" element={<Invite />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
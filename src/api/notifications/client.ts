@@ -1,10 +1,18 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import type {
   EmailRequest,
   EmailResponse,
   EmailErrorResponse,
+  EmailPreview,
+  EmailLocale,
   EmailLog,
-  RateLimitInfo,
+  EmailTemplate,
+  NotificationPreference,
+  OutboxEmail,
+  RateLimitStatus,
+  SendOptions,
+  UnsubscribeResponse,
 } from './types';
 
 /**
@@ -14,31 +22,70 @@ import type {
 export class EmailNotificationClient {
   private static readonly FUNCTION_NAME = 'send-email-notification';
 
+  // PostgREST's default max-rows
+  private static readonly LOG_PAGE_SIZE = 1000;
+
+  private static readonly INBOUND_DOMAIN: string | undefined = import.meta.env.VITE_INBOUND_EMAIL_DOMAIN;
+
+  /**
+   * Templates users can turn on or off, in display order
+   */
+  static readonly TEMPLATES: EmailTemplate[] = [
+    'task-reminder',
+    'daily-digest',
+    'task-assigned',
+    'task-completed',
+    'task-created',
+    'task-mention',
+    'workspace-invite',
+  ];
+
+  /**
+   * Account emails that always go out, so they have no preferences
+   */
+  static readonly TRANSACTIONAL_TEMPLATES: EmailTemplate[] = ['welcome', 'password-reset'];
+
   /**
-   * Rate limit configuration
+   * Templates that stay off until the user turns them on
    */
-  static readonly RATE_LIMITS: RateLimitInfo = {
-    maxEmailsPerHour: 10,
-    maxEmailsPerDay: 50,
-  };
+  static readonly OPT_IN_TEMPLATES: EmailTemplate[] = ['daily-digest'];
+
+  /**
+   * Languages templates can be rendered in
+   */
+  static readonly LOCALES: EmailLocale[] = ['en', 'es', 'de'];
+
+  /**
+   * Prefer the function's own error message, e.g. which rate limit was exceeded, over the
+   * generic one for non-2xx responses
+   */
+  private static async getErrorMessage(error: Error, fallback: string): Promise<string> {
+    const details: EmailErrorResponse | null =
+      error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    return details?.error || error.message || fallback;
+  }
 
   /**
    * Send an email notification
    * @param emailRequest - Email configuration
-   * @returns Promise with the response
+   * @param options - Idempotency key for safely repeating the request
+   * @returns Promise with the response. If the first attempt fails the email is queued for
+   * retries and the response has `status: 'failed'`. During the recipient's quiet hours it
+   * waits with `status: 'queued'` until they end.
    * @throws Error if sending fails
    */
-  static async send(emailRequest: EmailRequest): Promise<EmailResponse> {
+  static async send(emailRequest: EmailRequest, options: SendOptions = {}): Promise<EmailResponse> {
     try {
       const { data, error } = await supabase.functions.invoke<EmailResponse>(
         this.FUNCTION_NAME,
         {
           body: emailRequest,
+          headers: { 'Idempotency-Key': options.idempotencyKey ?? crypto.randomUUID() },
         }
       );
 
       if (error) {
-        throw new Error(error.message || 'Failed to send email');
+        throw new Error(await this.getErrorMessage(error, 'Failed to send email'));
       }
 
       if (!data) {
@@ -48,16 +95,38 @@ export class EmailNotificationClient {
       return data;
     } catch (error) {
       if (error instanceof Error) {
-        // Check for rate limit error
-        if (error.message.includes('rate limit')) {
-          throw new Error(`Rate limit exceeded. You can send up to ${this.RATE_LIMITS.maxEmailsPerHour} emails per hour and ${this.RATE_LIMITS.maxEmailsPerDay} emails per day.`);
-        }
         throw error;
       }
       throw new Error('Unknown error occurred while sending email');
     }
   }
 
+  /**
+   * Render a template with the given data without sending anything, in `locale` or English
+   */
+  static async preview(
+    template: EmailTemplate,
+    data: Record<string, unknown>,
+    locale?: EmailLocale
+  ): Promise<EmailPreview> {
+    const { data: preview, error } = await supabase.functions.invoke<EmailPreview>(
+      this.FUNCTION_NAME,
+      {
+        body: { preview: true, template, data, locale },
+      }
+    );
+
+    if (error) {
+      throw new Error(await this.getErrorMessage(error, 'Failed to preview email'));
+    }
+
+    if (!preview) {
+      throw new Error('No response from email service');
+    }
+
+    return preview;
+  }
+
   /**
    * Send a task reminder email
    */
@@ -65,16 +134,21 @@ export class EmailNotificationClient {
     to: string;
     taskName: string;
     dueDate?: string;
+    /** Exact due time (ISO 8601), shown in `timeZone` instead of `dueDate` */
+    dueAt?: string;
+    /** Recipient's IANA time zone, e.g. 'Europe/Berlin' */
+    timeZone?: string;
     description?: string;
     url?: string;
   }): Promise<EmailResponse> {
     return this.send({
       to: params.to,
-      subject: `Task Reminder: ${params.taskName}`,
       template: 'task-reminder',
       data: {
         taskName: params.taskName,
         dueDate: params.dueDate,
+        dueAt: params.dueAt,
+        timeZone: params.timeZone,
         description: params.description,
         url: params.url,
       },
@@ -90,17 +164,22 @@ export class EmailNotificationClient {
     assignedBy: string;
     description?: string;
     dueDate?: string;
+    /** Exact due time (ISO 8601), shown in `timeZone` instead of `dueDate` */
+    dueAt?: string;
+    /** Recipient's IANA time zone, e.g. 'Europe/Berlin' */
+    timeZone?: string;
     url?: string;
   }): Promise<EmailResponse> {
     return this.send({
       to: params.to,
-      subject: `New Task Assigned: ${params.taskName}`,
       template: 'task-assigned',
       data: {
         taskName: params.taskName,
         assignedBy: params.assignedBy,
         description: params.description,
         dueDate: params.dueDate,
+        dueAt: params.dueAt,
+        timeZone: params.timeZone,
         url: params.url,
       },
     });
@@ -113,20 +192,54 @@ export class EmailNotificationClient {
     to: string;
     taskName: string;
     completedBy: string;
+    /** When the task was completed (ISO 8601), shown in `timeZone` */
     completedAt?: string;
+    /** Recipient's IANA time zone, e.g. 'Europe/Berlin' */
+    timeZone?: string;
   }): Promise<EmailResponse> {
     return this.send({
       to: params.to,
-      subject: `Task Completed: ${params.taskName}`,
       template: 'task-completed',
       data: {
         taskName: params.taskName,
         completedBy: params.completedBy,
         completedAt: params.completedAt,
+        timeZone: params.timeZone,
       },
     });
   }
 
+  /**
+   * Send a workspace invitation email
+   */
+  static async sendWorkspaceInvite(
+    params: {
+      to: string;
+      workspaceName: string;
+      invitedBy: string;
+      role: 'admin' | 'member' | 'viewer';
+      acceptUrl: string;
+      /** When the invitation expires (ISO 8601) */
+      expiresAt?: string;
+    },
+    options: SendOptions = {}
+  ): Promise<EmailResponse> {
+    return this.send(
+      {
+        to: params.to,
+        template: 'workspace-invite',
+        data: {
+          workspaceName: params.workspaceName,
+          invitedBy: params.invitedBy,
+          role: params.role,
+          acceptUrl: params.acceptUrl,
+          expiresAt: params.expiresAt,
+        },
+      },
+      options
+    );
+  }
+
   /**
    * Send a welcome email
    */
@@ -137,7 +250,6 @@ export class EmailNotificationClient {
   }): Promise<EmailResponse> {
     return this.send({
       to: params.to,
-      subject: 'Welcome to Tidy Prioritize!',
       template: 'welcome',
       data: {
         userName: params.userName,
@@ -156,7 +268,6 @@ export class EmailNotificationClient {
   }): Promise<EmailResponse> {
     return this.send({
       to: params.to,
-      subject: 'Password Reset Request',
       template: 'password-reset',
       data: {
         resetUrl: params.resetUrl,
@@ -168,20 +279,197 @@ export class EmailNotificationClient {
   /**
    * Get email logs for the current user
    * @param limit - Maximum number of logs to retrieve
+   * @param since - Only return logs created at or after this time
    * @returns Promise with email logs
    */
-  static async getLogs(limit = 50): Promise<EmailLog[]> {
+  static async getLogs(limit = 50, since?: Date): Promise<EmailLog[]> {
+    const logs: EmailLog[] = [];
+
+    // Read in pages, since the API returns at most LOG_PAGE_SIZE rows per request
+    while (logs.length < limit) {
+      const from = logs.length;
+      const to = Math.min(limit, from + this.LOG_PAGE_SIZE) - 1;
+
+      let query = supabase
+        .from('email_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to);
+
+      if (since) {
+        query = query.gte('created_at', since.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch email logs: ${error.message}`);
+      }
+
+      logs.push(...((data as EmailLog[]) || []));
+      if (!data || data.length < to - from + 1) break;
+    }
+
+    return logs;
+  }
+
+  /**
+   * Get the current user's rate limits (from their plan) and how much of them is used.
+   * Only successful sends count towards the limits; failures have their own budget.
+   */
+  static async getRateLimits(): Promise<RateLimitStatus> {
+    const { data, error } = await supabase.functions.invoke<RateLimitStatus>(this.FUNCTION_NAME, {
+      method: 'GET',
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch rate limits: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('No response from email service');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the current user's emails that have not been delivered yet: queued, being sent,
+   * waiting for a retry or given up on
+   */
+  static async getOutbox(limit = 50): Promise<OutboxEmail[]> {
     const { data, error } = await supabase
-      .from('email_logs')
-      .select('*')
+      .from('email_outbox')
+      .select(
+        'id, recipient, subject, template, status, attempts, max_attempts, next_attempt_at, last_error, created_at, updated_at'
+      )
+      .neq('status', 'sent')
       .order('created_at', { ascending: false })
       .limit(limit);
 
     if (error) {
-      throw new Error(`Failed to fetch email logs: ${error.message}`);
+      throw new Error(`Failed to fetch email outbox: ${error.message}`);
+    }
+
+    return (data as OutboxEmail[]) || [];
+  }
+
+  /**
+   * Queue a failed or dead email for another attempt right away.
+   * The outbox worker picks it up within a minute.
+   */
+  static async retry(id: string): Promise<OutboxEmail> {
+    const { data, error } = await supabase.rpc('retry_email', { email_id: id });
+
+    if (error) {
+      throw new Error(`Failed to retry email: ${error.message}`);
+    }
+
+    return data as OutboxEmail;
+  }
+
+  /**
+   * Get the current user's notification preferences, with defaults filled in
+   * for templates that have never been changed
+   */
+  static async getPreferences(): Promise<NotificationPreference[]> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('template, enabled, quiet_hours_start, quiet_hours_end');
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+    }
+
+    return this.TEMPLATES.map((template) => {
+      const saved = data?.find((row) => row.template === template);
+      return saved
+        ? (saved as NotificationPreference)
+        : {
+            template,
+            enabled: !this.OPT_IN_TEMPLATES.includes(template),
+            quiet_hours_start: null,
+            quiet_hours_end: null,
+          };
+    });
+  }
+
+  /**
+   * Update the current user's preference for one template
+   */
+  static async updatePreference(
+    template: EmailTemplate,
+    updates: Partial<Omit<NotificationPreference, 'template'>>
+  ): Promise<NotificationPreference> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be logged in to update notification preferences');
+    }
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: user.id, template, ...updates }, { onConflict: 'user_id,template' })
+      .select('template, enabled, quiet_hours_start, quiet_hours_end')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update notification preference: ${error.message}`);
+    }
+
+    return data as NotificationPreference;
+  }
+
+  /**
+   * Turn a template off (or back on) using the signed token from an email's unsubscribe link.
+   * Works without being logged in.
+   */
+  static async unsubscribe(token: string, enabled = false): Promise<UnsubscribeResponse> {
+    const { data, error } = await supabase.functions.invoke<UnsubscribeResponse>('unsubscribe', {
+      body: { token, enabled },
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update subscription');
+    }
+
+    if (!data) {
+      throw new Error('No response from unsubscribe service');
+    }
+
+    return data;
+  }
+
+  /**
+   * The current user's address for creating tasks by email, or null when inbound email is
+   * not set up (VITE_INBOUND_EMAIL_DOMAIN)
+   */
+  static async getInboundAddress(): Promise<string | null> {
+    if (!this.INBOUND_DOMAIN) return null;
+
+    const { data, error } = await supabase.rpc('get_inbound_email_token');
+
+    if (error) {
+      throw new Error(`Failed to fetch inbound address: ${error.message}`);
+    }
+
+    return `tasks+${data}@${this.INBOUND_DOMAIN}`;
+  }
+
+  /**
+   * Replace the current user's inbound address; emails to the old one are rejected.
+   * Returns null, without replacing anything, when inbound email is not set up.
+   */
+  static async regenerateInboundAddress(): Promise<string | null> {
+    if (!this.INBOUND_DOMAIN) return null;
+
+    const { data, error } = await supabase.rpc('regenerate_inbound_email_token');
+
+    if (error) {
+      throw new Error(`Failed to regenerate inbound address: ${error.message}`);
     }
 
-    return data || [];
+    return `tasks+${data}@${this.INBOUND_DOMAIN}`;
   }
 
   /**
@@ -7,6 +7,8 @@
 import React, { useState } from 'react';
 import { useEmailNotifications } from '@/hooks/use-email-notifications';
 import { EmailNotificationClient } from '@/api/notifications';
+import type { RateLimitStatus } from '@/api/notifications';
+import { getRateLimitMessage } from '@/api/notifications/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
@@ -86,13 +88,18 @@ export function EmailStatsExample() {
     failedToday: number;
     totalSent: number;
   } | null>(null);
+  const [rateLimits, setRateLimits] = useState<RateLimitStatus | null>(null);
   const [loading, setLoading] = useState(false);
 
   const loadStats = async () => {
     setLoading(true);
     try {
-      const emailStats = await EmailNotificationClient.getStats();
+      const [emailStats, emailRateLimits] = await Promise.all([
+        EmailNotificationClient.getStats(),
+        EmailNotificationClient.getRateLimits(),
+      ]);
       setStats(emailStats);
+      setRateLimits(emailRateLimits);
     } catch (error) {
       console.error('Failed to load stats:', error);
       toast({
@@ -112,10 +119,10 @@ export function EmailStatsExample() {
         {loading ? 'Loading...' : 'Load Statistics'}
       </Button>
 
-      {stats && (
+      {stats && rateLimits && (
         <div className="space-y-2">
-          <p>Sent this hour: {stats.sentThisHour} / {EmailNotificationClient.RATE_LIMITS.maxEmailsPerHour}</p>
-          <p>Sent today: {stats.sentToday} / {EmailNotificationClient.RATE_LIMITS.maxEmailsPerDay}</p>
+          <p>Sent this hour: {rateLimits.usage.sentThisHour} / {rateLimits.limits.maxEmailsPerHour}</p>
+          <p>Sent in the last 24 hours: {rateLimits.usage.sentToday} / {rateLimits.limits.maxEmailsPerDay}</p>
           <p>Failed today: {stats.failedToday}</p>
           <p>Total sent: {stats.totalSent}</p>
         </div>
@@ -181,24 +188,15 @@ export async function sendCustomEmail(to: string, subject: string, htmlContent:
  */
 export async function sendWithRateLimitCheck(recipientEmail: string) {
   try {
-    // Get current stats
-    const stats = await EmailNotificationClient.getStats();
-    const limits = EmailNotificationClient.RATE_LIMITS;
+    // Get the current limits and usage from the server
+    const { limits, usage } = await EmailNotificationClient.getRateLimits();
 
     // Check if we can send
-    if (stats.sentThisHour >= limits.maxEmailsPerHour) {
+    const rateLimitMessage = getRateLimitMessage(usage, limits);
+    if (rateLimitMessage) {
       toast({
         title: 'Rate limit reached',
-        description: 'You have reached your hourly email limit. Please try again later.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    if (stats.sentToday >= limits.maxEmailsPerDay) {
-      toast({
-        title: 'Rate limit reached',
-        description: 'You have reached your daily email limit. Please try again tomorrow.',
+        description: rateLimitMessage,
         variant: 'destructive',
       });
       return;
@@ -213,7 +211,7 @@ export async function sendWithRateLimitCheck(recipientEmail: string) {
     // Show remaining quota
     toast({
       title: 'Email sent',
-      description: `Remaining today: ${limits.maxEmailsPerDay - stats.sentToday - 1}`,
+      description: `Remaining today: ${limits.maxEmailsPerDay - usage.sentToday - 1}`,
     });
   } catch (error) {
     console.error('Error:', error);
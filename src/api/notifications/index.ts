@@ -3,8 +3,10 @@
  *
  * This module provides a client for sending email notifications with:
  * - Template support (task reminders, assignments, completions, welcome, password reset)
- * - Rate limiting (10 emails/hour, 50 emails/day)
+ * - Per-plan rate limits on successful sends, plus a daily failure budget
  * - Email logging and statistics
+ * - Per-template notification preferences and signed unsubscribe links
+ * - Queued delivery with automatic retries and idempotency keys
  *
  * @example
  * ```typescript
@@ -28,8 +30,8 @@
  * });
  *
  * // Get email statistics
- * const stats = await EmailNotificationClient.getStats();
- * console.log(`Sent today: ${stats.sentToday}/${EmailNotificationClient.RATE_LIMITS.maxEmailsPerDay}`);
+ * const { limits, usage } = await EmailNotificationClient.getRateLimits();
+ * console.log(`Sent today: ${usage.sentToday}/${limits.maxEmailsPerDay}`);
  * ```
  */
 
@@ -39,8 +41,17 @@ export type {
   EmailRequest,
   TemplateEmailRequest,
   CustomEmailRequest,
+  EmailLocale,
   EmailResponse,
   EmailErrorResponse,
+  EmailPreview,
   EmailLog,
+  NotificationPreference,
+  OutboxEmail,
+  OutboxStatus,
   RateLimitInfo,
+  RateLimitStatus,
+  RateLimitUsage,
+  SendOptions,
+  UnsubscribeResponse,
 } from './types';
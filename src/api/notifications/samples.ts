@@ -0,0 +1,99 @@
+/**
+ * Sample data for previewing each email template
+ */
+
+import type { EmailTemplate } from './types';
+
+export const TEMPLATE_SAMPLES: Record<EmailTemplate, { data: Record<string, unknown> }> = {
+  'task-reminder': {
+    data: {
+      taskName: 'Complete project proposal',
+      description: 'Draft the Q4 project proposal',
+      dueDate: '2025-10-25',
+      dueAt: '2025-10-25T15:00:00Z',
+      timeZone: 'Europe/Berlin',
+      url: 'https://app.example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'daily-digest': {
+    data: {
+      date: '2025-10-24',
+      timeZone: 'Europe/Berlin',
+      tasks: [
+        {
+          name: 'Complete project proposal',
+          priority: 'high',
+          priorityReasoning: 'Due today and blocks the Q4 planning meeting',
+          dueDate: '2025-10-24',
+          dueAt: '2025-10-24T15:00:00Z',
+        },
+        { name: 'Book team offsite venue', priority: 'medium', dueDate: '2025-10-24' },
+        { name: 'Clean up inbox', priority: null },
+      ],
+      overdue: [{ name: 'Submit expense report', priority: 'low', dueDate: '2025-10-20' }],
+      url: 'https://app.example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'task-assigned': {
+    data: {
+      taskName: 'Review pull request',
+      assignedBy: 'Alex Morgan',
+      description: 'Review the changes to the email pipeline',
+      dueDate: '2025-10-26',
+      url: 'https://app.example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'task-completed': {
+    data: {
+      taskName: 'Review pull request',
+      completedBy: 'Alex Morgan',
+      completedAt: '2025-10-24T08:30:00Z',
+      timeZone: 'Europe/Berlin',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'task-created': {
+    data: {
+      taskName: 'Pay the electricity bill',
+      description: 'Your October invoice of $84.20 is due on November 3.',
+      priority: 'medium',
+      priorityReasoning: 'A bill with a due date next week, so it matters but is not urgent yet',
+      url: 'https://app.example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'task-mention': {
+    data: {
+      taskName: 'Review pull request',
+      mentionedBy: 'alex@example.com',
+      comment: '@sam@example.com could you take a look at the retry logic before Friday?',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'workspace-invite': {
+    data: {
+      workspaceName: 'Marketing Team',
+      invitedBy: 'Alex Morgan',
+      role: 'member',
+      acceptUrl: 'https://app.example.com/invite?token=sample',
+      expiresAt: '2025-10-31T08:30:00Z',
+      timeZone: 'Europe/Berlin',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?token=sample',
+    },
+  },
+  'welcome': {
+    data: {
+      userName: 'Alex',
+      loginUrl: 'https://app.example.com',
+    },
+  },
+  'password-reset': {
+    data: {
+      resetUrl: 'https://app.example.com/reset?token=sample',
+      expiresIn: '1 hour',
+    },
+  },
+};
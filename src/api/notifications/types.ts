@@ -6,17 +6,30 @@ export type EmailTemplate =
   | 'task-reminder'
   | 'task-assigned'
   | 'task-completed'
+  | 'task-created'
+  | 'task-mention'
+  | 'workspace-invite'
   | 'welcome'
-  | 'password-reset';
+  | 'password-reset'
+  | 'daily-digest';
+
+/**
+ * Languages templates are translated into
+ */
+export type EmailLocale = 'en' | 'es' | 'de';
 
 export interface BaseEmailRequest {
   to: string;
   subject: string;
 }
 
-export interface TemplateEmailRequest extends BaseEmailRequest {
+export interface TemplateEmailRequest extends Omit<BaseEmailRequest, 'subject'> {
+  /** Defaults to the template's subject in the recipient's language */
+  subject?: string;
   template: EmailTemplate;
   data: Record<string, any>;
+  /** Language to render in; defaults to the recipient's profile setting, or English */
+  locale?: EmailLocale;
 }
 
 export interface CustomEmailRequest extends BaseEmailRequest {
@@ -29,6 +42,26 @@ export type EmailRequest = TemplateEmailRequest | CustomEmailRequest;
 export interface EmailResponse {
   success: boolean;
   message: string;
+  /** The email's row in the outbox */
+  id?: string;
+  status?: OutboxStatus;
+}
+
+export interface SendOptions {
+  /**
+   * Sending again with the same key returns the first request's outcome instead of sending
+   * a second email. A random key is used when omitted.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * A template rendered without sending it
+ */
+export interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
 }
 
 export interface EmailErrorResponse {
@@ -36,8 +69,25 @@ export interface EmailErrorResponse {
 }
 
 export interface RateLimitInfo {
+  plan: string;
   maxEmailsPerHour: number;
   maxEmailsPerDay: number;
+  /** Failed sends allowed per 24 hours; failures do not count towards the send limits */
+  maxFailuresPerDay: number;
+}
+
+/**
+ * Successful and failed sends over the last hour and the last 24 hours
+ */
+export interface RateLimitUsage {
+  sentThisHour: number;
+  sentToday: number;
+  failedToday: number;
+}
+
+export interface RateLimitStatus {
+  limits: RateLimitInfo;
+  usage: RateLimitUsage;
 }
 
 export interface EmailLog {
@@ -46,7 +96,41 @@ export interface EmailLog {
   recipient: string;
   subject: string;
   template: string | null;
-  status: 'sent' | 'failed';
+  status: 'sent' | 'failed' | 'suppressed' | 'rate_limited';
   error_message: string | null;
   created_at: string;
 }
+
+export interface NotificationPreference {
+  template: EmailTemplate;
+  enabled: boolean;
+  /** Local hour (0-23) in the user's time zone when quiet hours begin */
+  quiet_hours_start: number | null;
+  /** Local hour (0-23) when quiet hours end; may be earlier than the start to wrap midnight */
+  quiet_hours_end: number | null;
+}
+
+/**
+ * queued/failed: waiting for an attempt; dead: out of attempts, or rejected for good
+ */
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export interface OutboxEmail {
+  id: string;
+  recipient: string;
+  subject: string;
+  template: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UnsubscribeResponse {
+  success: boolean;
+  template: EmailTemplate;
+  enabled: boolean;
+}
@@ -2,14 +2,46 @@
  * Utility functions for email notifications
  */
 
-import type { EmailLog } from './types';
+import type { EmailLocale, EmailLog, EmailTemplate, RateLimitInfo, RateLimitUsage } from './types';
+
+const TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  'task-reminder': 'Task reminders',
+  'daily-digest': 'Daily digest',
+  'task-assigned': 'Task assigned to me',
+  'task-completed': 'Task completed',
+  'task-created': 'Task created from email',
+  'task-mention': 'Mentions in comments',
+  'workspace-invite': 'Workspace invitations',
+  'welcome': 'Welcome email',
+  'password-reset': 'Password reset',
+};
+
+/**
+ * Human-readable name for a template, as shown in notification settings
+ */
+export function getTemplateLabel(template: string): string {
+  return TEMPLATE_LABELS[template as EmailTemplate] ?? template;
+}
+
+const LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+/**
+ * Name of an email language, in that language
+ */
+export function getLocaleLabel(locale: string): string {
+  return LOCALE_LABELS[locale as EmailLocale] ?? locale;
+}
 
 /**
  * Format email log for display
  */
 export function formatEmailLog(log: EmailLog): string {
   const date = new Date(log.created_at).toLocaleString();
-  const status = log.status === 'sent' ? '✓' : '✗';
+  const status = log.status === 'sent' ? '✓' : log.status === 'failed' ? '✗' : '–';
   return `${status} ${date} - ${log.subject} → ${log.recipient}`;
 }
 
@@ -22,34 +54,35 @@ export function isValidEmail(email: string): boolean {
 }
 
 /**
- * Calculate remaining emails for rate limits
+ * Calculate remaining emails for rate limits.
+ * Pass the usage and limits from `EmailNotificationClient.getRateLimits()`.
  */
-export function calculateRemainingEmails(stats: {
-  sentToday: number;
-  sentThisHour: number;
-}, limits: { maxEmailsPerHour: number; maxEmailsPerDay: number }): {
+export function calculateRemainingEmails(
+  usage: RateLimitUsage,
+  limits: RateLimitInfo
+): {
   remainingThisHour: number;
   remainingToday: number;
+  remainingFailures: number;
   canSend: boolean;
 } {
-  const remainingThisHour = limits.maxEmailsPerHour - stats.sentThisHour;
-  const remainingToday = limits.maxEmailsPerDay - stats.sentToday;
+  const remainingThisHour = limits.maxEmailsPerHour - usage.sentThisHour;
+  const remainingToday = limits.maxEmailsPerDay - usage.sentToday;
+  const remainingFailures = limits.maxFailuresPerDay - usage.failedToday;
 
   return {
     remainingThisHour: Math.max(0, remainingThisHour),
     remainingToday: Math.max(0, remainingToday),
-    canSend: remainingThisHour > 0 && remainingToday > 0,
+    remainingFailures: Math.max(0, remainingFailures),
+    canSend: remainingThisHour > 0 && remainingToday > 0 && remainingFailures > 0,
   };
 }
 
 /**
  * Get rate limit message
  */
-export function getRateLimitMessage(stats: {
-  sentToday: number;
-  sentThisHour: number;
-}, limits: { maxEmailsPerHour: number; maxEmailsPerDay: number }): string | null {
-  const { remainingThisHour, remainingToday } = calculateRemainingEmails(stats, limits);
+export function getRateLimitMessage(usage: RateLimitUsage, limits: RateLimitInfo): string | null {
+  const { remainingThisHour, remainingToday, remainingFailures } = calculateRemainingEmails(usage, limits);
 
   if (remainingThisHour === 0) {
     return 'Hourly email limit reached. Please try again later.';
@@ -59,6 +92,10 @@ export function getRateLimitMessage(stats: {
     return 'Daily email limit reached. Please try again tomorrow.';
   }
 
+  if (remainingFailures === 0) {
+    return 'Too many emails failed in the last 24 hours. Sending is paused until some expire.';
+  }
+
   return null;
 }
 
@@ -91,20 +128,63 @@ export function sanitizeEmailData(data: Record<string, any>): Record<string, any
 export function groupLogsByStatus(logs: EmailLog[]): {
   sent: EmailLog[];
   failed: EmailLog[];
+  suppressed: EmailLog[];
+  rateLimited: EmailLog[];
 } {
   return logs.reduce(
     (acc, log) => {
       if (log.status === 'sent') {
         acc.sent.push(log);
+      } else if (log.status === 'suppressed') {
+        acc.suppressed.push(log);
+      } else if (log.status === 'rate_limited') {
+        acc.rateLimited.push(log);
       } else {
         acc.failed.push(log);
       }
       return acc;
     },
-    { sent: [] as EmailLog[], failed: [] as EmailLog[] }
+    {
+      sent: [] as EmailLog[],
+      failed: [] as EmailLog[],
+      suppressed: [] as EmailLog[],
+      rateLimited: [] as EmailLog[],
+    }
   );
 }
 
+export type DailyEmailCounts = { date: string } & Record<EmailLog['status'], number>;
+
+/**
+ * Count email logs per local day between two dates, oldest first.
+ * Days without any emails are included with zero counts.
+ */
+export function countLogsByDay(
+  logs: EmailLog[],
+  startDate: Date,
+  endDate: Date
+): DailyEmailCounts[] {
+  const toKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+  const days = new Map<string, DailyEmailCounts>();
+  const cursor = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  while (cursor <= endDate) {
+    const key = toKey(cursor);
+    days.set(key, { date: key, sent: 0, failed: 0, suppressed: 0, rate_limited: 0 });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  for (const log of logs) {
+    const day = days.get(toKey(new Date(log.created_at)));
+    if (day) {
+      day[log.status]++;
+    }
+  }
+
+  return Array.from(days.values());
+}
+
 /**
  * Get email logs from a specific date range
  */
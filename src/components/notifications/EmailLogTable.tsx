@@ -0,0 +1,69 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getTemplateLabel } from "@/api/notifications/utils";
+import type { EmailLog } from "@/api/notifications";
+
+const STATUS_VARIANTS: Record<EmailLog["status"], "default" | "destructive" | "secondary" | "outline"> = {
+  sent: "default",
+  failed: "destructive",
+  suppressed: "secondary",
+  rate_limited: "outline",
+};
+
+interface EmailLogTableProps {
+  logs: EmailLog[];
+}
+
+export const EmailLogTable = ({ logs }: EmailLogTableProps) => {
+  if (logs.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">No emails match these filters.</p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-28">Status</TableHead>
+          <TableHead>Email</TableHead>
+          <TableHead className="hidden md:table-cell">Type</TableHead>
+          <TableHead className="w-40 text-right">Sent at</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {logs.map((log) => (
+          <TableRow key={log.id}>
+            <TableCell className="align-top">
+              <Badge variant={STATUS_VARIANTS[log.status]} className="capitalize whitespace-nowrap">
+                {log.status.replace("_", " ")}
+              </Badge>
+            </TableCell>
+            <TableCell className="align-top">
+              <div className="font-medium text-foreground">{log.subject}</div>
+              <div className="text-xs text-muted-foreground">{log.recipient}</div>
+              {log.error_message && (
+                <p
+                  className={cn(
+                    "mt-1 text-xs break-words",
+                    log.status === "failed" ? "text-destructive" : "text-muted-foreground"
+                  )}
+                >
+                  {log.error_message}
+                </p>
+              )}
+            </TableCell>
+            <TableCell className="hidden md:table-cell align-top text-muted-foreground">
+              {log.template ? getTemplateLabel(log.template) : "Custom"}
+            </TableCell>
+            <TableCell className="align-top text-right text-muted-foreground whitespace-nowrap">
+              {format(new Date(log.created_at), "MMM d, h:mm a")}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
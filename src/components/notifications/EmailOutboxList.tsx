@@ -0,0 +1,74 @@
+import { format, formatDistanceToNow } from "date-fns";
+import { RotateCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { OutboxEmail, OutboxStatus } from "@/api/notifications";
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  queued: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Retrying",
+  dead: "Gave up",
+};
+
+interface EmailOutboxListProps {
+  emails: OutboxEmail[];
+  retryingId: string | null;
+  onRetry: (id: string) => void;
+}
+
+/**
+ * Emails that have not gone out yet, with a "Retry now" action for failed and dead ones
+ */
+export const EmailOutboxList = ({ emails, retryingId, onRetry }: EmailOutboxListProps) => {
+  return (
+    <div className="divide-y divide-border/50">
+      {emails.map((email) => {
+        const canRetry = email.status === "failed" || email.status === "dead";
+
+        return (
+          <div key={email.id} className="flex items-start justify-between gap-4 py-3 first:pt-0 last:pb-0">
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={email.status === "dead" ? "destructive" : "secondary"}>
+                  {STATUS_LABELS[email.status]}
+                </Badge>
+                <span className="font-medium text-foreground truncate">{email.subject}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {email.recipient} · attempt {email.attempts} of {email.max_attempts}
+                {email.status === "failed" &&
+                  ` · next try ${formatDistanceToNow(new Date(email.next_attempt_at), { addSuffix: true })}`}
+                {email.status === "dead" && ` · last tried ${format(new Date(email.updated_at), "MMM d, h:mm a")}`}
+              </div>
+              {email.last_error && (
+                <p
+                  className={cn(
+                    "text-xs break-words",
+                    email.status === "dead" ? "text-destructive" : "text-muted-foreground"
+                  )}
+                >
+                  {email.last_error}
+                </p>
+              )}
+            </div>
+            {canRetry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRetry(email.id)}
+                disabled={retryingId === email.id}
+                className="shrink-0"
+              >
+                <RotateCw className="h-4 w-4 mr-2" />
+                Retry now
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
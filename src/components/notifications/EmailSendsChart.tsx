@@ -0,0 +1,53 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DailyEmailCounts } from "@/api/notifications/utils";
+
+const chartConfig = {
+  sent: { label: "Sent", color: "hsl(var(--primary))" },
+  failed: { label: "Failed", color: "hsl(var(--destructive))" },
+  rate_limited: { label: "Rate limited", color: "hsl(38 92% 50%)" },
+  suppressed: { label: "Suppressed", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+interface EmailSendsChartProps {
+  data: DailyEmailCounts[];
+}
+
+export const EmailSendsChart = ({ data }: EmailSendsChartProps) => {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ left: -20, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(value: string) => format(parseISO(value), "EEEE, MMM d")}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="sent" stackId="emails" fill="var(--color-sent)" />
+        <Bar dataKey="failed" stackId="emails" fill="var(--color-failed)" />
+        <Bar dataKey="rate_limited" stackId="emails" fill="var(--color-rate_limited)" />
+        <Bar dataKey="suppressed" stackId="emails" fill="var(--color-suppressed)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Archive,
+  ArchiveRestore,
+  Calendar as CalendarIcon,
+  Home,
+  Mail,
+  MoreHorizontal,
+  Plus,
+  Settings,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PROJECT_COLORS, useProjects, type Project } from "@/hooks/use-projects";
+
+export const ProjectSidebar = () => {
+  const location = useLocation();
+  const { activeProjects, archivedProjects, refresh } = useProjects();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleCreateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("You must be logged in to create projects");
+
+      const { error } = await supabase.from("projects").insert({
+        user_id: user.id,
+        name: name.trim(),
+        color,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Project created" });
+      setName("");
+      setColor(PROJECT_COLORS[0]);
+      setIsCreating(false);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetArchived = async (project: Project, archived: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("projects")
+        .update({ archived })
+        .eq("id", project.id);
+
+      if (error) throw error;
+
+      toast({ title: archived ? `Archived ${project.name}` : `Restored ${project.name}` });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderProject = (project: Project) => (
+    <SidebarMenuItem key={project.id}>
+      <SidebarMenuButton asChild isActive={location.pathname === `/projects/${project.id}`}>
+        <Link to={`/projects/${project.id}`}>
+          <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+          <span className={project.archived ? "text-muted-foreground" : undefined}>{project.name}</span>
+        </Link>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">Project actions</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          {project.archived ? (
+            <DropdownMenuItem onSelect={() => handleSetArchived(project, false)}>
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              Restore
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onSelect={() => handleSetArchived(project, true)}>
+              <Archive className="mr-2 h-4 w-4" />
+              Archive
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <span className="px-2 py-1 text-lg font-semibold text-sidebar-foreground">TaskPrioritizer</span>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={location.pathname === "/"}>
+                  <Link to="/">
+                    <Home />
+                    <span>Today</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={location.pathname === "/calendar"}>
+                  <Link to="/calendar">
+                    <CalendarIcon />
+                    <span>Calendar</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction title="New project" onClick={() => setIsCreating(true)}>
+            <Plus />
+            <span className="sr-only">New project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {activeProjects.map(renderProject)}
+              {activeProjects.length === 0 && (
+                <p className="px-2 py-1 text-xs text-muted-foreground">No projects yet</p>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        {archivedProjects.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Archived</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{archivedProjects.map(renderProject)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild isActive={location.pathname.startsWith("/notifications")}>
+              <Link to="/notifications">
+                <Mail />
+                <span>Notifications</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild isActive={location.pathname === "/settings"}>
+              <Link to="/settings">
+                <Settings />
+                <span>Settings</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>New Project</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreateProject} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-name">Name</Label>
+              <Input
+                id="project-name"
+                placeholder="e.g. Home renovation"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2">
+                {PROJECT_COLORS.map((swatch) => (
+                  <button
+                    key={swatch}
+                    type="button"
+                    onClick={() => setColor(swatch)}
+                    className={`h-7 w-7 rounded-full border-2 transition-transform ${
+                      color === swatch ? "border-foreground scale-110" : "border-transparent"
+                    }`}
+                    style={{ backgroundColor: swatch }}
+                    aria-label={`Use color ${swatch}`}
+                  />
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving ? "Creating..." : "Create Project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useCollaborators } from "@/hooks/use-collaborators";
+import { Check, UserRound } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface AssigneePickerProps {
+  id?: string;
+  /** The assignee's user id; null keeps the task to its owner */
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+/**
+ * Pick someone you already share tasks or a workspace with. New people are invited to a
+ * workspace first.
+ */
+export const AssigneePicker = ({ id, value, onChange }: AssigneePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const { collaborators, getEmail } = useCollaborators();
+
+  const select = (next: string | null) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="w-full justify-start font-normal">
+          <UserRound className="mr-2 h-4 w-4" />
+          <span className="truncate">{value ? getEmail(value) ?? "Assigned" : "Only me"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search people..." />
+          <CommandList>
+            <CommandEmpty>No one found. Invite people to a workspace to assign them tasks.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="only me" onSelect={() => select(null)}>
+                <Check className={cn("mr-2 h-4 w-4", value ? "opacity-0" : "opacity-100")} />
+                Only me
+              </CommandItem>
+              {collaborators.map((person) => (
+                <CommandItem key={person.id} value={person.email} onSelect={() => select(person.id)}>
+                  <Check className={cn("mr-2 h-4 w-4", value === person.id ? "opacity-100" : "opacity-0")} />
+                  <span className="truncate">{person.email}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
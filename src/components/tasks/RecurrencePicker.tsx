@@ -0,0 +1,172 @@
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import {
+  WEEKDAYS,
+  getWeekdayLabel,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence";
+
+type Preset = "none" | "DAILY" | "WEEKDAYS" | "WEEKLY" | "MONTHLY" | "CUSTOM";
+type EndMode = "never" | "until" | "count";
+
+const WORKWEEK: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+interface RecurrencePickerProps {
+  id?: string;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  startDate?: Date;
+}
+
+const getPreset = (rule: RecurrenceRule | null): Preset => {
+  if (!rule) return "none";
+  if (rule.frequency !== "WEEKLY") return rule.frequency;
+  if (!rule.byDay?.length) return "WEEKLY";
+  if (rule.byDay.length === WORKWEEK.length && WORKWEEK.every((day) => rule.byDay?.includes(day))) {
+    return "WEEKDAYS";
+  }
+  return "CUSTOM";
+};
+
+export const RecurrencePicker = ({ id, value, onChange, startDate }: RecurrencePickerProps) => {
+  const rule = parseRecurrenceRule(value);
+  const preset = getPreset(rule);
+  const endMode: EndMode = rule?.until ? "until" : rule?.count ? "count" : "never";
+  const anchor = startDate ?? new Date();
+
+  const update = (next: RecurrenceRule | null) => {
+    onChange(next ? serializeRecurrenceRule(next) : null);
+  };
+
+  const handlePresetChange = (next: Preset) => {
+    const ends = { until: rule?.until, count: rule?.count };
+
+    switch (next) {
+      case "none":
+        update(null);
+        break;
+      case "DAILY":
+        update({ frequency: "DAILY", interval: 1, ...ends });
+        break;
+      case "WEEKDAYS":
+        update({ frequency: "WEEKLY", interval: 1, byDay: WORKWEEK, ...ends });
+        break;
+      case "WEEKLY":
+        update({ frequency: "WEEKLY", interval: 1, ...ends });
+        break;
+      case "MONTHLY":
+        update({ frequency: "MONTHLY", interval: 1, byMonthDay: anchor.getDate(), ...ends });
+        break;
+      case "CUSTOM":
+        update({ frequency: "WEEKLY", interval: 1, byDay: [WEEKDAYS[anchor.getDay()]], ...ends });
+        break;
+    }
+  };
+
+  const handleEndModeChange = (next: EndMode) => {
+    if (!rule) return;
+    update({
+      ...rule,
+      until: next === "until" ? rule.until ?? anchor : undefined,
+      count: next === "count" ? rule.count ?? 5 : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={preset} onValueChange={(next) => handlePresetChange(next as Preset)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="DAILY">Daily</SelectItem>
+          <SelectItem value="WEEKDAYS">Every weekday (Mon-Fri)</SelectItem>
+          <SelectItem value="WEEKLY">Weekly</SelectItem>
+          <SelectItem value="MONTHLY">Monthly</SelectItem>
+          <SelectItem value="CUSTOM">Custom weekdays</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {rule && preset === "CUSTOM" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start flex-wrap"
+          value={rule.byDay ?? []}
+          onValueChange={(days: Weekday[]) => {
+            if (days.length > 0) update({ ...rule, byDay: days });
+          }}
+        >
+          {WEEKDAYS.map((day) => (
+            <ToggleGroupItem key={day} value={day} aria-label={getWeekdayLabel(day)}>
+              {getWeekdayLabel(day)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {rule && (
+        <div className="flex gap-2">
+          <Select value={endMode} onValueChange={(next) => handleEndModeChange(next as EndMode)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endMode === "until" && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1 justify-start text-left font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {rule.until ? format(rule.until, "PPP") : "Pick a date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={rule.until}
+                  onSelect={(until) => until && update({ ...rule, until })}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+
+          {endMode === "count" && (
+            <div className="flex flex-1 items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={rule.count ?? 1}
+                onChange={(e) => update({ ...rule, count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
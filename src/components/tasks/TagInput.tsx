@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeTag } from "@/lib/tags";
+import { Plus, Tag, X } from "lucide-react";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagInput = ({ id, value, onChange }: TagInputProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  const fetchSuggestions = async () => {
+    const { data, error } = await supabase.rpc("get_user_tags");
+
+    if (error) {
+      console.error("Error loading tags:", error);
+      return;
+    }
+
+    setSuggestions((data || []).map((row) => row.tag));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      fetchSuggestions();
+    } else {
+      setSearch("");
+    }
+  };
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setSearch("");
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing) => existing !== tag));
+  };
+
+  const normalizedSearch = normalizeTag(search);
+  const available = suggestions.filter((tag) => !value.includes(tag));
+  const canCreate = normalizedSearch && !value.includes(normalizedSearch) && !suggestions.includes(normalizedSearch);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" size="sm" className="h-7 gap-1 text-xs">
+            <Tag className="h-3 w-3" />
+            Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>{canCreate ? null : "No tags found."}</CommandEmpty>
+              {available.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {available.map((tag) => (
+                    <CommandItem key={tag} value={tag} onSelect={() => addTag(tag)}>
+                      #{tag}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup forceMount>
+                  <CommandItem value={`create-${normalizedSearch}`} onSelect={() => addTag(search)} forceMount>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "#{normalizedSearch}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
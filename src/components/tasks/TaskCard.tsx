@@ -1,49 +1,164 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
-
-interface Task {
-  id: string;
-  name: string;
-  description: string | null;
-  completed: boolean;
-  priority: string | null;
-  priority_reasoning: string | null;
-}
+import { useTaskMutations, type Task } from "@/hooks/use-tasks";
+import { CalendarClock, History, MessageSquare, MoreVertical, Pencil, Repeat, Sparkles, Trash2, UserRound, UsersRound } from "lucide-react";
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { describeRecurrenceRule, parseRecurrenceRule } from "@/lib/recurrence";
+import { getBrowserTimeZone, getTimeInTimeZone } from "@/lib/timezone";
+import { TaskForm } from "./TaskForm";
+import { TaskChecklist } from "./TaskChecklist";
+import { TaskDetailsSheet, type TaskDetailsTab } from "./TaskDetailsSheet";
 
 interface TaskCardProps {
   task: Task;
-  onTaskUpdated: () => void;
+  /** Future occurrence of a recurring task that has not been generated yet */
+  isProjected?: boolean;
+  onTagClick?: (tag: string) => void;
+  isOverdue?: boolean;
+  timeZone?: string;
+  currentUserId?: string | null;
+  /** Email of someone the current user shares tasks with, by user id */
+  getPersonEmail?: (id: string) => string | undefined;
+  /** Show the task without letting the user change it, e.g. for workspace viewers */
+  readOnly?: boolean;
 }
 
-export const TaskCard = ({ task, onTaskUpdated }: TaskCardProps) => {
+export const TaskCard = ({
+  task,
+  isProjected = false,
+  onTagClick,
+  isOverdue = false,
+  timeZone = getBrowserTimeZone(),
+  currentUserId,
+  getPersonEmail,
+  readOnly = false,
+}: TaskCardProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [detailsTab, setDetailsTab] = useState<TaskDetailsTab>("comments");
   const { toast } = useToast();
+  const { setCompleted, updateTask, deleteTask, restoreTask, invalidateTasks } = useTaskMutations();
+  const isAssignedToMe = !!currentUserId && task.user_id !== currentUserId && task.assignee_id === currentUserId;
+  // Someone else's personal task assigned to the current user can only be completed;
+  // workspace tasks are open to every member
+  const isLocked = isProjected || readOnly || (isAssignedToMe && !task.workspace_id);
+  const sharedWithId = isAssignedToMe ? task.user_id : task.assignee_id;
+  const sharedWithEmail = sharedWithId ? getPersonEmail?.(sharedWithId) ?? "someone" : null;
+  const isManualPriority = task.priority_source === "manual";
+  const recurrence = parseRecurrenceRule(task.recurrence_rule);
+  const commentCount = task.task_comments?.[0]?.count ?? 0;
+  const dueTime = task.due_at ? getTimeInTimeZone(task.due_at, timeZone) : null;
 
   const handleToggleComplete = async (checked: boolean) => {
     try {
-      const { error } = await supabase
-        .from("tasks")
-        .update({ completed: checked })
-        .eq("id", task.id);
-
-      if (error) throw error;
+      const nextDate = await setCompleted(task, checked, timeZone);
 
       toast({
         title: checked ? "Task completed!" : "Task marked as incomplete",
+        description: nextDate ? `Next occurrence scheduled for ${format(nextDate, "MMM d")}` : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteTask(task.id);
+
+      toast({
+        title: "Task deleted",
+        description: task.name,
+        action: (
+          <ToastAction altText="Undo delete" onClick={handleUndoDelete}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    try {
+      await restoreTask(task);
+
+      toast({ title: "Task restored" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetPriority = async (priority: string) => {
+    try {
+      await updateTask(task.id, { priority, priority_source: "manual", priority_reasoning: null });
+
+      toast({ title: `Priority set to ${priority}` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-      
-      onTaskUpdated();
-    } catch (error: any) {
+    }
+  };
+
+  const handleLetAiDecide = async () => {
+    try {
+      // Without a description there is nothing to analyze, so the manual priority is cleared
+      // and the AI decides on the next edit
+      await updateTask(
+        task.id,
+        task.description
+          ? { priority_source: "ai" }
+          : { priority: null, priority_source: "ai", priority_reasoning: null },
+        { prioritizeFrom: task.description || undefined }
+      );
+
+      toast({ title: "Priority handed back to AI" });
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
   };
 
+  const openDetails = (tab: TaskDetailsTab) => {
+    setDetailsTab(tab);
+    setShowDetails(true);
+  };
+
   const getPriorityColor = (priority: string | null) => {
     switch (priority) {
       case 'high':
@@ -58,12 +173,17 @@ export const TaskCard = ({ task, onTaskUpdated }: TaskCardProps) => {
   };
 
   return (
-    <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow duration-200">
+    <Card
+      className={`shadow-sm border-border/50 hover:shadow-md transition-shadow duration-200 ${
+        isProjected ? "border-dashed opacity-75" : ""
+      }`}
+    >
       <CardContent className="p-3 sm:p-4">
         <div className="flex items-start gap-2 sm:gap-3">
           <Checkbox
             checked={task.completed}
             onCheckedChange={handleToggleComplete}
+            disabled={isProjected || readOnly}
             className="mt-1 flex-shrink-0"
           />
           <div className="flex-1 min-w-0 space-y-2">
@@ -75,11 +195,77 @@ export const TaskCard = ({ task, onTaskUpdated }: TaskCardProps) => {
               >
                 {task.name}
               </h3>
-              {task.priority && (
-                <Badge variant="outline" className={`${getPriorityColor(task.priority)} flex-shrink-0 text-xs`}>
-                  {task.priority}
-                </Badge>
-              )}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild disabled={isLocked}>
+                    <button type="button" aria-label="Change priority">
+                      <Badge
+                        variant="outline"
+                        className={`${getPriorityColor(task.priority)} text-xs gap-1 cursor-pointer`}
+                        title={isManualPriority ? "Priority set manually" : "Priority set by AI"}
+                      >
+                        {isManualPriority && <UserRound className="h-3 w-3" />}
+                        {task.priority ?? "priority"}
+                      </Badge>
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Priority</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={isManualPriority ? task.priority ?? "" : ""}
+                      onValueChange={handleSetPriority}
+                    >
+                      <DropdownMenuRadioItem value="high">High</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="medium">Medium</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="low">Low</DropdownMenuRadioItem>
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={handleLetAiDecide} disabled={!isManualPriority}>
+                      <Sparkles className="mr-2 h-4 w-4" />
+                      Let AI decide
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 px-2 text-muted-foreground"
+                  onClick={() => openDetails("comments")}
+                  disabled={isProjected}
+                >
+                  <MessageSquare className="h-4 w-4" />
+                  {commentCount > 0 && <span className="text-xs">{commentCount}</span>}
+                  <span className="sr-only">Comments</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground"
+                  onClick={() => openDetails("history")}
+                  disabled={isProjected}
+                >
+                  <History className="h-4 w-4" />
+                  <span className="sr-only">History</span>
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild disabled={isLocked}>
+                    <Button variant="ghost" size="icon" className="h-7 w-7">
+                      <MoreVertical className="h-4 w-4" />
+                      <span className="sr-only">Task actions</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => setIsEditing(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={handleDelete} className="text-destructive focus:text-destructive">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
             {task.description && (
               <p
@@ -90,14 +276,84 @@ export const TaskCard = ({ task, onTaskUpdated }: TaskCardProps) => {
                 {task.description}
               </p>
             )}
+            {task.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {task.tags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className={`text-xs font-normal ${onTagClick ? "cursor-pointer" : ""}`}
+                    onClick={() => onTagClick?.(tag)}
+                  >
+                    #{tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <TaskChecklist
+              taskId={task.id}
+              items={task.task_items ?? []}
+              readOnly={isLocked}
+            />
             {task.priority_reasoning && (
               <p className="text-xs text-muted-foreground italic break-words">
                 {task.priority_reasoning}
               </p>
             )}
+            {(isOverdue || dueTime) && task.due_date && (
+              <p
+                className={`flex items-center gap-1 text-xs ${
+                  isOverdue ? "text-destructive" : "text-muted-foreground"
+                }`}
+              >
+                <CalendarClock className="h-3 w-3 flex-shrink-0" />
+                Due {[isOverdue && format(parseISO(task.due_date), "MMM d"), dueTime].filter(Boolean).join(", ")}
+              </p>
+            )}
+            {sharedWithEmail && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground break-all">
+                <UsersRound className="h-3 w-3 flex-shrink-0" />
+                {isAssignedToMe ? `Assigned to you by ${sharedWithEmail}` : `Assigned to ${sharedWithEmail}`}
+              </p>
+            )}
+            {recurrence && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Repeat className="h-3 w-3 flex-shrink-0" />
+                {isProjected ? "Upcoming occurrence · " : ""}
+                {describeRecurrenceRule(recurrence)}
+              </p>
+            )}
           </div>
         </div>
       </CardContent>
+
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+          </DialogHeader>
+          <TaskForm
+            task={task}
+            timeZone={timeZone}
+            onTaskAdded={() => setIsEditing(false)}
+            onCancel={() => setIsEditing(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {!isProjected && (
+        <TaskDetailsSheet
+          task={task}
+          open={showDetails}
+          onOpenChange={setShowDetails}
+          tab={detailsTab}
+          onTabChange={setDetailsTab}
+          timeZone={timeZone}
+          currentUserId={currentUserId}
+          readOnly={readOnly}
+          onCommentsChanged={invalidateTasks}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useTaskMutations, type TaskItem } from "@/hooks/use-tasks";
+import { Plus, X } from "lucide-react";
+
+interface TaskChecklistProps {
+  taskId: string;
+  items: TaskItem[];
+  readOnly?: boolean;
+}
+
+export const TaskChecklist = ({ taskId, items, readOnly = false }: TaskChecklistProps) => {
+  const [newItem, setNewItem] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { addItem, updateItem, deleteItem } = useTaskMutations();
+  const { toast } = useToast();
+
+  const sortedItems = [...items].sort((a, b) => a.position - b.position);
+  const completedCount = items.filter((item) => item.completed).length;
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleToggleItem = async (item: TaskItem, checked: boolean) => {
+    try {
+      await updateItem(item, { completed: checked });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newItem.trim();
+    if (!name) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("You must be logged in to add checklist items");
+
+      // The item shows up right away, so the box is ready for the next one
+      setNewItem("");
+      await addItem({
+        task_id: taskId,
+        user_id: user.id,
+        name,
+        position: sortedItems.length > 0 ? sortedItems[sortedItems.length - 1].position + 1 : 0,
+      });
+    } catch (error) {
+      setNewItem(name);
+      showError(error);
+    }
+  };
+
+  const handleDeleteItem = async (item: TaskItem) => {
+    try {
+      await deleteItem(item);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (items.length === 0 && (readOnly || !isAdding)) {
+    return readOnly ? null : (
+      <button
+        type="button"
+        onClick={() => setIsAdding(true)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Plus className="h-3 w-3" />
+        Add checklist
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Progress value={(completedCount / items.length) * 100} className="h-1.5 flex-1" />
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {completedCount}/{items.length}
+          </span>
+        </div>
+      )}
+      <ul className="space-y-1">
+        {sortedItems.map((item) => (
+          <li key={item.id} className="group flex items-center gap-2">
+            <Checkbox
+              checked={item.completed}
+              onCheckedChange={(checked) => handleToggleItem(item, checked === true)}
+              disabled={readOnly}
+              className="h-3.5 w-3.5"
+            />
+            <span
+              className={`flex-1 text-xs sm:text-sm break-words ${
+                item.completed ? "line-through text-muted-foreground" : "text-foreground"
+              }`}
+            >
+              {item.name}
+            </span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => handleDeleteItem(item)}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                aria-label={`Remove ${item.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {!readOnly && (
+        <form onSubmit={handleAddItem} className="flex gap-1">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            placeholder="Add an item"
+            className="h-7 text-xs"
+            autoFocus={isAdding && items.length === 0}
+          />
+          <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" disabled={!newItem.trim()}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useTaskComments } from "@/hooks/use-task-comments";
+import { getMentionQuery, splitMentions } from "@/lib/mentions";
+import { format, parseISO } from "date-fns";
+import { AtSign, Loader2, Send, Trash2 } from "lucide-react";
+import { TaskTimeline } from "./TaskTimeline";
+
+const MAX_SUGGESTIONS = 5;
+
+export type TaskDetailsTab = "comments" | "history";
+
+interface TaskDetailsSheetProps {
+  task: {
+    id: string;
+    name: string;
+    description: string | null;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tab: TaskDetailsTab;
+  onTabChange: (tab: TaskDetailsTab) => void;
+  timeZone: string;
+  currentUserId?: string | null;
+  /** Show the discussion without the comment box, e.g. for workspace viewers */
+  readOnly?: boolean;
+  /** Called after a comment is posted or deleted */
+  onCommentsChanged?: () => void;
+}
+
+/**
+ * Side drawer with a task's discussion and change history. Typing @ in a comment suggests
+ * everyone with access to the task; mentioned people get an email.
+ */
+export const TaskDetailsSheet = ({
+  task,
+  open,
+  onOpenChange,
+  tab,
+  onTabChange,
+  timeZone,
+  currentUserId,
+  readOnly = false,
+  onCommentsChanged,
+}: TaskDetailsSheetProps) => {
+  const [body, setBody] = useState("");
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [posting, setPosting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { comments, participants, loading, addComment, deleteComment, getEmail } = useTaskComments(
+    open ? task.id : null
+  );
+  const { toast } = useToast();
+
+  const mentionable = participants.filter((person) => person.id !== currentUserId);
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : mentionable
+          .filter((person) => person.email.toLowerCase().includes(mentionQuery.toLowerCase()))
+          .slice(0, MAX_SUGGESTIONS);
+
+  const updateBody = (value: string, cursor: number) => {
+    setBody(value);
+    setMentionQuery(getMentionQuery(value, cursor));
+  };
+
+  // Replace the partial @name before the cursor with the full address
+  const insertMention = (email: string) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? body.length;
+    const before = body.slice(0, cursor).replace(/@[^\s@]*(?:@[^\s@]*)?$/, `@${email} `);
+    const next = before + body.slice(cursor);
+
+    setBody(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!body.trim()) return;
+
+    setPosting(true);
+    try {
+      await addComment(body);
+      setBody("");
+      setMentionQuery(null);
+      onCommentsChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteComment(id);
+      onCommentsChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="break-words pr-6">{task.name}</SheetTitle>
+          <SheetDescription className="whitespace-pre-wrap break-words">
+            {task.description || "No description"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs
+          value={tab}
+          onValueChange={(value) => onTabChange(value as TaskDetailsTab)}
+          className="flex min-h-0 flex-1 flex-col border-t border-border/50 pt-4"
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="comments" className="flex min-h-0 flex-1 flex-col">
+            <div className="flex-1 space-y-4 overflow-y-auto pt-2">
+              {loading ? (
+                <div className="h-16 bg-muted animate-pulse rounded-md" />
+              ) : comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {comments.map((comment) => {
+                    const isMine = comment.user_id === currentUserId;
+
+                    return (
+                      <li key={comment.id} className="group rounded-md bg-muted/50 p-3">
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span className="truncate font-medium text-foreground">
+                            {isMine ? "You" : getEmail(comment.user_id) ?? "Former member"}
+                          </span>
+                          <span className="flex items-center gap-1 flex-shrink-0">
+                            {format(parseISO(comment.created_at), "MMM d, h:mm a")}
+                            {isMine && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                onClick={() => handleDelete(comment.id)}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                                <span className="sr-only">Delete comment</span>
+                              </Button>
+                            )}
+                          </span>
+                        </div>
+                        <p className="mt-1 whitespace-pre-wrap break-words text-sm">
+                          {splitMentions(comment.body, participants).map((segment, index) =>
+                            segment.mention ? (
+                              <span key={index} className="font-medium text-primary">
+                                {segment.text}
+                              </span>
+                            ) : (
+                              segment.text
+                            )
+                          )}
+                        </p>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {!readOnly && (
+              <form onSubmit={handleSubmit} className="relative space-y-2 border-t border-border/50 pt-4">
+                {suggestions.length > 0 && (
+                  <ul className="absolute bottom-full left-0 right-0 mb-1 rounded-md border bg-popover p-1 shadow-md">
+                    {suggestions.map((person) => (
+                      <li key={person.id}>
+                        <button
+                          type="button"
+                          className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                          // Keep the textarea's cursor while picking
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => insertMention(person.email)}
+                        >
+                          <AtSign className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                          <span className="truncate">{person.email}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <Textarea
+                  ref={textareaRef}
+                  placeholder={mentionable.length > 0 ? "Add a comment, @ to mention someone" : "Add a comment"}
+                  value={body}
+                  onChange={(e) => updateBody(e.target.value, e.target.selectionStart)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSubmit();
+                    if (e.key === "Escape" && mentionQuery !== null) {
+                      e.preventDefault();
+                      setMentionQuery(null);
+                    }
+                  }}
+                  rows={3}
+                  maxLength={5000}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" size="sm" disabled={posting || !body.trim()}>
+                    {posting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    Comment
+                  </Button>
+                </div>
+              </form>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="min-h-0 flex-1 overflow-y-auto pl-2 pt-2">
+            <TaskTimeline
+              taskId={task.id}
+              timeZone={timeZone}
+              currentUserId={currentUserId}
+              getPersonEmail={getEmail}
+            />
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useId } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,22 +8,76 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Mic, MicOff, CalendarIcon } from "lucide-react";
 import { useVoiceInput } from "@/hooks/use-voice-input";
+import { useProjects } from "@/hooks/use-projects";
+import { useTaskMutations } from "@/hooks/use-tasks";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
+import { getBrowserTimeZone, getTimeInTimeZone, zonedTimeToUtc } from "@/lib/timezone";
+import { RecurrencePicker } from "./RecurrencePicker";
+import { TagInput } from "./TagInput";
+import { AssigneePicker } from "./AssigneePicker";
+
+interface Task {
+  id: string;
+  name: string;
+  description: string | null;
+  due_date: string | null;
+  due_at: string | null;
+  priority: string | null;
+  priority_source: string;
+  recurrence_rule: string | null;
+  project_id: string | null;
+  assignee_id: string | null;
+  tags: string[];
+}
 
 interface TaskFormProps {
-  onTaskAdded: () => void;
+  /** Called once the task is saved; the task lists update on their own */
+  onTaskAdded?: () => void;
+  task?: Task;
+  onCancel?: () => void;
+  defaultProjectId?: string;
+  /** Workspace new tasks are created in; personal when left out */
+  workspaceId?: string | null;
+  /** IANA zone the due date and time are entered in */
+  timeZone?: string;
 }
 
-export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
-  const [name, setName] = useState("");
-  const [description, setDescription] = useState("");
-  const [dueDate, setDueDate] = useState<Date>();
+export const TaskForm = ({
+  onTaskAdded,
+  task,
+  onCancel,
+  defaultProjectId,
+  workspaceId = null,
+  timeZone = getBrowserTimeZone(),
+}: TaskFormProps) => {
+  const isEditing = !!task;
+  const fieldId = useId();
+  const [name, setName] = useState(task?.name ?? "");
+  const [description, setDescription] = useState(task?.description ?? "");
+  const [dueDate, setDueDate] = useState<Date | undefined>(
+    task?.due_date ? parseISO(task.due_date) : undefined
+  );
+  // 'HH:mm' in the user's time zone, empty when the task is due any time that day
+  const [dueTime, setDueTime] = useState(task?.due_at ? getTimeInTimeZone(task.due_at, timeZone) : "");
+  // 'auto' leaves the priority to the AI, anything else is a manual override
+  const [priority, setPriority] = useState(
+    task?.priority_source === 'manual' && task.priority ? task.priority : 'auto'
+  );
+  const [recurrenceRule, setRecurrenceRule] = useState<string | null>(task?.recurrence_rule ?? null);
+  const [projectId, setProjectId] = useState<string | null>(
+    task ? task.project_id : defaultProjectId ?? null
+  );
+  const [tags, setTags] = useState<string[]>(task?.tags ?? []);
+  const [assigneeId, setAssigneeId] = useState<string | null>(task?.assignee_id ?? null);
+  const { activeProjects, refresh: refreshProjects } = useProjects();
   const [loading, setLoading] = useState(false);
   const [voiceField, setVoiceField] = useState<'name' | 'description' | null>(null);
   const { toast } = useToast();
+  const { createTask, updateTask } = useTaskMutations();
   const { isListening, transcript, error, startListening, stopListening, resetTranscript } = useVoiceInput();
 
   useEffect(() => {
@@ -48,11 +102,26 @@ export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
     }
   }, [error, toast]);
 
+  const getDueFields = () => {
+    if (!dueDate) return { due_date: null, due_at: null };
+
+    const dueDateStr = format(dueDate, 'yyyy-MM-dd');
+    return {
+      due_date: dueDateStr,
+      due_at: dueTime ? zonedTimeToUtc(dueDateStr, dueTime, timeZone).toISOString() : null,
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
+      if (task) {
+        await handleUpdate(task);
+        return;
+      }
+
       const { data: { user } } = await supabase.auth.getUser();
       
       if (!user) {
@@ -64,36 +133,40 @@ export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
         return;
       }
 
-      const { data: newTask, error } = await supabase.from("tasks").insert({
-        user_id: user.id,
-        name,
-        description,
-        due_date: dueDate ? format(dueDate, 'yyyy-MM-dd') : null,
-      }).select().single();
-
-      if (error) throw error;
-
-      // Call edge function to prioritize the task
-      if (newTask && description) {
-        try {
-          await supabase.functions.invoke('prioritize-task', {
-            body: { taskId: newTask.id, description }
-          });
-        } catch (priorityError: any) {
-          console.error('Priority error:', priorityError);
-          // Don't fail the whole operation if prioritization fails
-        }
-      }
+      const isManualPriority = priority !== 'auto';
+
+      await createTask(
+        {
+          user_id: user.id,
+          name,
+          description,
+          ...getDueFields(),
+          priority: isManualPriority ? priority : undefined,
+          priority_source: isManualPriority ? 'manual' : 'ai',
+          recurrence_rule: recurrenceRule,
+          project_id: projectId,
+          assignee_id: assigneeId,
+          workspace_id: workspaceId,
+          tags,
+        },
+        // The AI analyzes the description in the background; its priority shows up when ready
+        { prioritizeFrom: description && !isManualPriority ? description : undefined }
+      );
 
       toast({ title: "Task created successfully!" });
-    setName("");
-    setDescription("");
-    setDueDate(undefined);
-    onTaskAdded();
-    } catch (error: any) {
+      setName("");
+      setDescription("");
+      setDueDate(undefined);
+      setDueTime("");
+      setPriority('auto');
+      setRecurrenceRule(null);
+      setTags([]);
+      setAssigneeId(null);
+      onTaskAdded?.();
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
     } finally {
@@ -101,6 +174,41 @@ export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
     }
   };
 
+  const handleUpdate = async (task: Task) => {
+    const isManualPriority = priority !== 'auto';
+    const wasManualPriority = task.priority_source === 'manual';
+
+    // Re-prioritize when the description, which drives the AI analysis, changed
+    // or when the user handed a manually prioritized task back to the AI
+    const descriptionChanged = description !== (task.description ?? "");
+    const shouldPrioritize = !isManualPriority && description && (descriptionChanged || wasManualPriority);
+    // Without a description there is nothing to analyze, so the manual priority is cleared
+    // instead of being kept as if the AI had picked it
+    const clearsPriority = !isManualPriority && wasManualPriority && !description;
+
+    await updateTask(
+      task.id,
+      {
+        name,
+        description,
+        ...getDueFields(),
+        recurrence_rule: recurrenceRule,
+        project_id: projectId,
+        assignee_id: assigneeId,
+        tags,
+        ...(isManualPriority
+          ? { priority, priority_source: 'manual', priority_reasoning: null }
+          : clearsPriority
+            ? { priority: null, priority_source: 'ai', priority_reasoning: null }
+            : { priority_source: 'ai' }),
+      },
+      { prioritizeFrom: shouldPrioritize ? description : undefined }
+    );
+
+    toast({ title: "Task updated successfully!" });
+    onTaskAdded?.();
+  };
+
   const handleVoiceInput = (field: 'name' | 'description') => {
     if (isListening) {
       stopListening();
@@ -110,6 +218,185 @@ export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
     }
   };
 
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-name`}>Task Name</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${fieldId}-name`}
+            placeholder="Enter task name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            variant={isListening && voiceField === 'name' ? "destructive" : "outline"}
+            size="icon"
+            onClick={() => handleVoiceInput('name')}
+            disabled={isListening && voiceField !== 'name'}
+          >
+            {isListening && voiceField === 'name' ? (
+              <MicOff className="h-4 w-4" />
+            ) : (
+              <Mic className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-description`}>Description</Label>
+        <div className="flex gap-2">
+          <Textarea
+            id={`${fieldId}-description`}
+            placeholder="Enter task description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            variant={isListening && voiceField === 'description' ? "destructive" : "outline"}
+            size="icon"
+            onClick={() => handleVoiceInput('description')}
+            disabled={isListening && voiceField !== 'description'}
+            className="self-start"
+          >
+            {isListening && voiceField === 'description' ? (
+              <MicOff className="h-4 w-4" />
+            ) : (
+              <Mic className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-dueDate`}>Due Date (Optional)</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              id={`${fieldId}-dueDate`}
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !dueDate && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {dueDate ? format(dueDate, "PPP") : "Pick a date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={dueDate}
+              onSelect={setDueDate}
+              initialFocus
+              className="p-3 pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {dueDate && (
+        <div className="space-y-2">
+          <Label htmlFor={`${fieldId}-dueTime`}>Due Time (Optional)</Label>
+          <Input
+            id={`${fieldId}-dueTime`}
+            type="time"
+            value={dueTime}
+            onChange={(e) => setDueTime(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Times are in {timeZone.replace(/_/g, " ")}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-project`}>Project</Label>
+        <Select
+          value={projectId ?? "none"}
+          onValueChange={(value) => setProjectId(value === "none" ? null : value)}
+          onOpenChange={(open) => open && refreshProjects()}
+        >
+          <SelectTrigger id={`${fieldId}-project`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No project</SelectItem>
+            {activeProjects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                <span className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: project.color }} />
+                  {project.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-assignee`}>Assign to</Label>
+        <AssigneePicker id={`${fieldId}-assignee`} value={assigneeId} onChange={setAssigneeId} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-tags`}>Tags</Label>
+        <TagInput id={`${fieldId}-tags`} value={tags} onChange={setTags} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-priority`}>Priority</Label>
+        <Select value={priority} onValueChange={setPriority}>
+          <SelectTrigger id={`${fieldId}-priority`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Let AI decide</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${fieldId}-repeat`}>Repeat</Label>
+        <RecurrencePicker
+          id={`${fieldId}-repeat`}
+          value={recurrenceRule}
+          onChange={setRecurrenceRule}
+          startDate={dueDate}
+        />
+      </div>
+
+      {isEditing ? (
+        <div className="flex gap-2 justify-end">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={loading}>
+            {loading ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      ) : (
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? "Adding..." : "Add Task"}
+        </Button>
+      )}
+    </form>
+  );
+
+  if (isEditing) {
+    return form;
+  }
+
   return (
     <Card className="shadow-md border-border/50">
       <CardHeader>
@@ -119,93 +406,7 @@ export const TaskForm = ({ onTaskAdded }: TaskFormProps) => {
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Task Name</Label>
-            <div className="flex gap-2">
-              <Input
-                id="name"
-                placeholder="Enter task name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
-                className="flex-1"
-              />
-              <Button
-                type="button"
-                variant={isListening && voiceField === 'name' ? "destructive" : "outline"}
-                size="icon"
-                onClick={() => handleVoiceInput('name')}
-                disabled={isListening && voiceField !== 'name'}
-              >
-                {isListening && voiceField === 'name' ? (
-                  <MicOff className="h-4 w-4" />
-                ) : (
-                  <Mic className="h-4 w-4" />
-                )}
-              </Button>
-            </div>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <div className="flex gap-2">
-              <Textarea
-                id="description"
-                placeholder="Enter task description"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                rows={3}
-                className="flex-1"
-              />
-              <Button
-                type="button"
-                variant={isListening && voiceField === 'description' ? "destructive" : "outline"}
-                size="icon"
-                onClick={() => handleVoiceInput('description')}
-                disabled={isListening && voiceField !== 'description'}
-                className="self-start"
-              >
-                {isListening && voiceField === 'description' ? (
-                  <MicOff className="h-4 w-4" />
-                ) : (
-                  <Mic className="h-4 w-4" />
-                )}
-              </Button>
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="dueDate">Due Date (Optional)</Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  id="dueDate"
-                  variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !dueDate && "text-muted-foreground"
-                  )}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {dueDate ? format(dueDate, "PPP") : "Pick a date"}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={dueDate}
-                  onSelect={setDueDate}
-                  initialFocus
-                  className="p-3 pointer-events-auto"
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? "Adding..." : "Add Task"}
-          </Button>
-        </form>
+        {form}
       </CardContent>
     </Card>
   );
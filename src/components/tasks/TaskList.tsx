@@ -2,66 +2,69 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { TaskCard } from "./TaskCard";
 import { useToast } from "@/hooks/use-toast";
+import { useCollaborators } from "@/hooks/use-collaborators";
+import { useTasks, type Task } from "@/hooks/use-tasks";
 import { Button } from "@/components/ui/button";
-import { ArrowUpDown } from "lucide-react";
-import { format } from "date-fns";
-
-interface Task {
-  id: string;
-  name: string;
-  description: string | null;
-  completed: boolean;
-  created_at: string;
-  priority: string | null;
-  priority_reasoning: string | null;
-  due_date: string | null;
-}
+import { Badge } from "@/components/ui/badge";
+import { ArrowUpDown, X } from "lucide-react";
+import { getBrowserTimeZone } from "@/lib/timezone";
 
 interface TaskListProps {
-  refresh: number;
   todayOnly?: boolean;
   date?: Date;
+  projectId?: string;
+  /** Only tasks in this workspace, or only personal tasks when null */
+  workspaceId?: string | null;
+  /** Show tasks without letting the user change them, e.g. for workspace viewers */
+  readOnly?: boolean;
+  /** Open tasks whose due date has passed, oldest first */
+  overdue?: boolean;
+  onTasksLoaded?: (count: number) => void;
+  /** IANA zone that decides which calendar day is "today" */
+  timeZone?: string;
 }
 
-export const TaskList = ({ refresh, todayOnly = false, date }: TaskListProps) => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [loading, setLoading] = useState(true);
+export const TaskList = ({
+  todayOnly = false,
+  date,
+  projectId,
+  workspaceId,
+  readOnly = false,
+  overdue = false,
+  onTasksLoaded,
+  timeZone = getBrowserTimeZone(),
+}: TaskListProps) => {
+  const { tasks, projectedTasks, loading, error } = useTasks({
+    todayOnly,
+    overdue,
+    date,
+    projectId,
+    workspaceId,
+    timeZone,
+  });
   const [sortByPriority, setSortByPriority] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { getEmail } = useCollaborators();
   const { toast } = useToast();
 
-  const fetchTasks = async () => {
-    try {
-      let query = supabase
-        .from("tasks")
-        .select("*");
-
-      if (todayOnly) {
-        const today = format(new Date(), 'yyyy-MM-dd');
-        query = query.or(`due_date.eq.${today},due_date.is.null`).eq("completed", false);
-      } else if (date) {
-        const dateStr = format(date, 'yyyy-MM-dd');
-        query = query.eq("due_date", dateStr);
-      }
-
-      const { data, error } = await query.order("created_at", { ascending: false });
-
-      if (error) throw error;
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
 
-      setTasks(data || []);
-    } catch (error: any) {
+  useEffect(() => {
+    if (error) {
       toast({
         title: "Error loading tasks",
-        description: error.message,
+        description: error,
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [error, toast]);
 
   useEffect(() => {
-    fetchTasks();
-  }, [refresh, todayOnly, date]);
+    if (!loading) onTasksLoaded?.(tasks.length + projectedTasks.length);
+  }, [loading, tasks, projectedTasks, onTasksLoaded]);
 
   if (loading) {
     return (
@@ -77,16 +80,34 @@ export const TaskList = ({ refresh, todayOnly = false, date }: TaskListProps) =>
     setSortByPriority(!sortByPriority);
   };
 
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((selected) => selected !== tag) : [...prev, tag]
+    );
+  };
+
+  // A task must carry every selected tag to stay visible
+  const matchesTags = (task: Task) => selectedTags.every((tag) => task.tags.includes(tag));
+
+  const availableTags = Array.from(
+    new Set([...tasks, ...projectedTasks].flatMap((task) => task.tags))
+  ).sort();
+
+  const filteredTasks = tasks.filter(matchesTags);
+  const filteredProjectedTasks = projectedTasks.filter(matchesTags);
+
   const sortedTasks = sortByPriority
-    ? [...tasks].sort((a, b) => {
+    ? [...filteredTasks].sort((a, b) => {
         const priorityOrder = { high: 3, medium: 2, low: 1 };
         const aPriority = priorityOrder[a.priority as keyof typeof priorityOrder] || 0;
         const bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] || 0;
         return bPriority - aPriority;
       })
-    : tasks;
+    : filteredTasks;
+
+  if (tasks.length === 0 && projectedTasks.length === 0) {
+    if (overdue) return null;
 
-  if (tasks.length === 0) {
     return (
       <div className="text-center py-12">
         <p className="text-muted-foreground">No tasks yet. Create your first task above!</p>
@@ -96,12 +117,33 @@ export const TaskList = ({ refresh, todayOnly = false, date }: TaskListProps) =>
 
   return (
     <div className="space-y-3 sm:space-y-4">
-      <div className="flex justify-end">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-1.5">
+          {availableTags.map((tag) => {
+            const isSelected = selectedTags.includes(tag);
+            return (
+              <Badge
+                key={tag}
+                variant={isSelected ? "default" : "outline"}
+                className="cursor-pointer text-xs font-normal"
+                onClick={() => toggleTag(tag)}
+              >
+                #{tag}
+              </Badge>
+            );
+          })}
+          {selectedTags.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSelectedTags([])}>
+              <X className="w-3 h-3 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
         <Button
           variant="outline"
           size="sm"
           onClick={handleSort}
-          className="gap-2"
+          className="gap-2 flex-shrink-0"
         >
           <ArrowUpDown className="w-4 h-4" />
           <span className="hidden sm:inline">{sortByPriority ? "Sort by Date" : "Sort by Priority"}</span>
@@ -110,9 +152,32 @@ export const TaskList = ({ refresh, todayOnly = false, date }: TaskListProps) =>
       </div>
       <div className="grid gap-3 sm:gap-4 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
         {sortedTasks.map((task) => (
-          <TaskCard key={task.id} task={task} onTaskUpdated={fetchTasks} />
+          <TaskCard
+            key={task.id}
+            task={task}
+            onTagClick={toggleTag}
+            isOverdue={overdue}
+            timeZone={timeZone}
+            currentUserId={currentUserId}
+            getPersonEmail={getEmail}
+            readOnly={readOnly}
+          />
+        ))}
+        {filteredProjectedTasks.map((task) => (
+          <TaskCard
+            key={`${task.id}-projected`}
+            task={task}
+            isProjected
+            timeZone={timeZone}
+            currentUserId={currentUserId}
+            getPersonEmail={getEmail}
+            readOnly={readOnly}
+          />
         ))}
       </div>
+      {sortedTasks.length === 0 && filteredProjectedTasks.length === 0 && (
+        <p className="text-center py-8 text-sm text-muted-foreground">No tasks match the selected tags.</p>
+      )}
     </div>
   );
 };
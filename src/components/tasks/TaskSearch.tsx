@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { CalendarIcon, CheckCircle2, Search } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+type SearchResult = Database["public"]["Functions"]["search_tasks"]["Returns"][number];
+
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const SEARCH_DEBOUNCE_MS = 200;
+
+// search_tasks wraps matches in control characters so user content is never rendered as HTML
+const renderHighlighted = (text: string | null) => {
+  if (!text) return null;
+
+  return text.split(HIGHLIGHT_START).map((chunk, index) => {
+    if (index === 0) return chunk;
+    const [match, rest = ""] = chunk.split(HIGHLIGHT_END);
+    return (
+      <span key={index}>
+        <mark className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground">{match}</mark>
+        {rest}
+      </span>
+    );
+  });
+};
+
+interface TaskSearchProps {
+  /** Search the tasks in this workspace, or the personal tasks when null */
+  workspaceId?: string | null;
+}
+
+export const TaskSearch = ({ workspaceId = null }: TaskSearchProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [priority, setPriority] = useState("all");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const { data, error } = await supabase.rpc("search_tasks", {
+        search_query: query,
+        include_completed: includeCompleted,
+        priority_filter: priority === "all" ? undefined : [priority],
+        due_from: dateRange?.from ? format(dateRange.from, "yyyy-MM-dd") : undefined,
+        due_to: dateRange?.to ? format(dateRange.to, "yyyy-MM-dd") : undefined,
+        target_workspace_id: workspaceId ?? undefined,
+      });
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error("Search error:", error);
+        setResults([]);
+      } else {
+        setResults(data || []);
+      }
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, includeCompleted, priority, dateRange, workspaceId]);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+
+    if (result.project_id) {
+      navigate(`/projects/${result.project_id}`);
+    } else if (result.due_date) {
+      navigate(`/calendar?date=${result.due_date}`);
+    } else {
+      navigate("/");
+    }
+  };
+
+  const dateRangeLabel = dateRange?.from
+    ? dateRange.to
+      ? `${format(dateRange.from, "MMM d")} – ${format(dateRange.to, "MMM d")}`
+      : `From ${format(dateRange.from, "MMM d")}`
+    : "Any date";
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 text-muted-foreground"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden sm:inline">Search</span>
+        <kbd className="hidden sm:inline pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">
+          Ctrl K
+        </kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput placeholder="Search tasks..." value={query} onValueChange={setQuery} />
+
+        <div className="flex flex-wrap items-center gap-3 border-b px-3 py-2">
+          <div className="flex items-center gap-2">
+            <Switch id="search-completed" checked={includeCompleted} onCheckedChange={setIncludeCompleted} />
+            <Label htmlFor="search-completed" className="text-xs">Include completed</Label>
+          </div>
+          <Select value={priority} onValueChange={setPriority}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any priority</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 gap-2 text-xs font-normal">
+                <CalendarIcon className="h-3 w-3" />
+                {dateRangeLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+              {dateRange && (
+                <div className="border-t p-2">
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setDateRange(undefined)}>
+                    Clear dates
+                  </Button>
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <CommandList>
+          <CommandEmpty>
+            {!query.trim() ? "Type to search your tasks." : searching ? "Searching..." : "No matching tasks."}
+          </CommandEmpty>
+          {results.length > 0 && (
+            <CommandGroup heading="Tasks">
+              {results.map((result) => (
+                <CommandItem key={result.id} value={result.id} onSelect={() => handleSelect(result)}>
+                  <div className="flex w-full flex-col gap-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {result.completed && <CheckCircle2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />}
+                      <span className={`truncate font-medium ${result.completed ? "line-through text-muted-foreground" : ""}`}>
+                        {renderHighlighted(result.name_highlight) ?? result.name}
+                      </span>
+                      {result.priority && (
+                        <Badge variant="outline" className="ml-auto text-xs flex-shrink-0">
+                          {result.priority}
+                        </Badge>
+                      )}
+                    </div>
+                    {result.description_highlight && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {renderHighlighted(result.description_highlight)}
+                      </p>
+                    )}
+                    {result.reasoning_highlight?.includes(HIGHLIGHT_START) && (
+                      <p className="truncate text-xs italic text-muted-foreground">
+                        {renderHighlighted(result.reasoning_highlight)}
+                      </p>
+                    )}
+                    {result.due_date && (
+                      <span className="text-xs text-muted-foreground">
+                        Due {format(parseISO(result.due_date), "MMM d, yyyy")}
+                      </span>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
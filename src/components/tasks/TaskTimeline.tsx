@@ -0,0 +1,76 @@
+import { useTaskEvents } from "@/hooks/use-task-events";
+import { useProjects } from "@/hooks/use-projects";
+import { describeTaskEvent, type TaskEventChanges } from "@/lib/task-events";
+import { format, parseISO } from "date-fns";
+import { Bot, Server, UserRound } from "lucide-react";
+
+interface TaskTimelineProps {
+  taskId: string;
+  timeZone: string;
+  currentUserId?: string | null;
+  getPersonEmail?: (id: string) => string | undefined;
+}
+
+const ACTOR_ICONS = {
+  user: UserRound,
+  ai: Bot,
+  system: Server,
+};
+
+/**
+ * Who changed what on a task and when, newest first
+ */
+export const TaskTimeline = ({ taskId, timeZone, currentUserId, getPersonEmail }: TaskTimelineProps) => {
+  const { events, loading, error } = useTaskEvents(taskId);
+  const { projects } = useProjects();
+
+  const lookups = {
+    timeZone,
+    getPersonEmail,
+    getProjectName: (id: string) => projects.find((project) => project.id === id)?.name,
+  };
+
+  const getActorName = (actor: string, actorId: string | null) => {
+    if (actor === "ai") return "AI";
+    if (actor === "system") return "TaskPrioritizer";
+    if (actorId && actorId === currentUserId) return "You";
+    return (actorId && getPersonEmail?.(actorId)) ?? "Someone";
+  };
+
+  if (loading) {
+    return <div className="h-16 bg-muted animate-pulse rounded-md" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border pl-4">
+      {events.map((event) => {
+        const Icon = ACTOR_ICONS[event.actor as keyof typeof ACTOR_ICONS] ?? UserRound;
+        const lines = describeTaskEvent(event.event_type, event.changes as TaskEventChanges, lookups);
+        if (lines.length === 0) return null;
+
+        return (
+          <li key={event.id} className="relative">
+            <span className="absolute -left-[25px] top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <p className="text-sm break-words">
+              <span className="font-medium">{getActorName(event.actor, event.actor_id)}</span>{" "}
+              {lines.join(", ")}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {format(parseISO(event.created_at), "MMM d, h:mm a")}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -13,15 +13,20 @@ interface Message {
 
 interface VoiceAssistantProps {
   onTaskCreated: () => void;
+  /** Workspace new tasks are created in; personal when left out */
+  workspaceId?: string | null;
 }
 
-export const VoiceAssistant = ({ onTaskCreated }: VoiceAssistantProps) => {
+export const VoiceAssistant = ({ onTaskCreated, workspaceId = null }: VoiceAssistantProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [textInput, setTextInput] = useState("");
   const recognitionRef = useRef<any>(null);
+  // Speech results arrive in a handler set up once, so read the workspace from a ref
+  const workspaceIdRef = useRef(workspaceId);
+  workspaceIdRef.current = workspaceId;
   const { toast } = useToast();
 
   useEffect(() => {
@@ -66,7 +71,7 @@ export const VoiceAssistant = ({ onTaskCreated }: VoiceAssistantProps) => {
 
     try {
       const { data, error } = await supabase.functions.invoke('chat-task-assistant', {
-        body: { messages: [...messages, userMessage] }
+        body: { messages: [...messages, userMessage], workspaceId: workspaceIdRef.current }
       });
 
       if (error) throw error;
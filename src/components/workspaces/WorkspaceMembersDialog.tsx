@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { hasWorkspaceRole, type Workspace, type WorkspaceRole } from "@/hooks/use-workspaces";
+import { useWorkspaceMembers, type InvitableRole } from "@/hooks/use-workspace-members";
+import { format, parseISO } from "date-fns";
+import { LogOut, Mail, Send, X } from "lucide-react";
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+};
+
+const INVITABLE_ROLES: InvitableRole[] = ["admin", "member", "viewer"];
+
+interface WorkspaceMembersDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLeave: () => void;
+}
+
+/**
+ * Members of a workspace and their roles. Admins can invite people by email, change roles
+ * and remove members; everyone but the owner can leave.
+ */
+export const WorkspaceMembersDialog = ({ workspace, open, onOpenChange, onLeave }: WorkspaceMembersDialogProps) => {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("member");
+  const [inviting, setInviting] = useState(false);
+  const {
+    members,
+    invitations,
+    loading,
+    invite,
+    resendInvitation,
+    revokeInvitation,
+    updateRole,
+    removeMember,
+  } = useWorkspaceMembers(workspace);
+  const { toast } = useToast();
+  const isAdmin = hasWorkspaceRole(workspace.role, "admin");
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  // Every action here reports failures the same way
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    await run(async () => {
+      await invite(email, role);
+      setEmail("");
+    }, `Invitation sent to ${email.trim()}`);
+    setInviting(false);
+  };
+
+  const handleLeave = () =>
+    run(async () => {
+      await removeMember(currentUserId);
+      onLeave();
+    }, `You left ${workspace.name}`);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{workspace.name}</DialogTitle>
+          <DialogDescription>Your role: {ROLE_LABELS[workspace.role]}</DialogDescription>
+        </DialogHeader>
+
+        {isAdmin && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Label htmlFor="invite-email">Invite by email</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as InvitableRole)}>
+                <SelectTrigger aria-label="Role" className="sm:w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITABLE_ROLES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={inviting || !email.trim()}>
+                <Send className="mr-2 h-4 w-4" />
+                {inviting ? "Sending..." : "Invite"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Members</h3>
+          {loading ? (
+            <div className="h-10 bg-muted animate-pulse rounded-md" />
+          ) : (
+            <ul className="divide-y divide-border/50 rounded-md border border-border/50">
+              {members.map((member) => {
+                const isSelf = member.user_id === currentUserId;
+                const canManage = isAdmin && !isSelf && member.role !== "owner";
+
+                return (
+                  <li key={member.user_id} className="flex items-center gap-2 px-3 py-2">
+                    <span className="flex-1 truncate text-sm">
+                      {member.email}
+                      {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                    </span>
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value: InvitableRole) =>
+                          run(
+                            () => updateRole(member.user_id, value),
+                            `${member.email} is now ${ROLE_LABELS[value].toLowerCase()}`
+                          )
+                        }
+                      >
+                        <SelectTrigger aria-label={`Role of ${member.email}`} className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INVITABLE_ROLES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary" className="font-normal">
+                        {ROLE_LABELS[member.role]}
+                      </Badge>
+                    )}
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => run(() => removeMember(member.user_id), `Removed ${member.email}`)}
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove {member.email}</span>
+                      </Button>
+                    )}
+                    {isSelf && member.role !== "owner" && (
+                      <Button variant="ghost" size="sm" className="h-8" onClick={handleLeave}>
+                        <LogOut className="mr-1 h-4 w-4" />
+                        Leave
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {isAdmin && invitations.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Pending invitations</h3>
+            <ul className="divide-y divide-border/50 rounded-md border border-border/50">
+              {invitations.map((invitation) => {
+                const isExpired = parseISO(invitation.expires_at) < new Date();
+
+                return (
+                  <li key={invitation.id} className="flex items-center gap-2 px-3 py-2">
+                    <Mail className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-sm">{invitation.email}</p>
+                      <p className={`text-xs ${isExpired ? "text-destructive" : "text-muted-foreground"}`}>
+                        {ROLE_LABELS[invitation.role as InvitableRole]} ·{" "}
+                        {isExpired ? "Expired" : `Expires ${format(parseISO(invitation.expires_at), "MMM d")}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8"
+                      disabled={isExpired}
+                      onClick={() => run(() => resendInvitation(invitation), `Invitation resent to ${invitation.email}`)}
+                    >
+                      Resend
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => run(() => revokeInvitation(invitation.id), "Invitation revoked")}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Revoke invitation to {invitation.email}</span>
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import type { Workspace } from "@/hooks/use-workspaces";
+import { Check, ChevronsUpDown, Plus, UserRound, Users, UsersRound } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { WorkspaceMembersDialog } from "./WorkspaceMembersDialog";
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  /** null is the personal space */
+  currentWorkspace: Workspace | null;
+  onSelect: (workspaceId: string | null) => void;
+  onCreate: (name: string) => Promise<Workspace>;
+  /** Called after the user leaves the current workspace */
+  onLeave: () => void;
+}
+
+/**
+ * Header menu for switching between the personal space and the user's workspaces,
+ * creating workspaces and managing members of the open one
+ */
+export const WorkspaceSwitcher = ({
+  workspaces,
+  currentWorkspace,
+  onSelect,
+  onCreate,
+  onLeave,
+}: WorkspaceSwitcherProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const created = await onCreate(name.trim());
+      toast({ title: `Created ${created.name}` });
+      setName("");
+      setIsCreating(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[11rem] gap-2">
+            {currentWorkspace ? (
+              <UsersRound className="h-4 w-4 flex-shrink-0" />
+            ) : (
+              <UserRound className="h-4 w-4 flex-shrink-0" />
+            )}
+            <span className="truncate">{currentWorkspace?.name ?? "Personal"}</span>
+            <ChevronsUpDown className="h-3 w-3 flex-shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => onSelect(null)}>
+            <Check className={cn("mr-2 h-4 w-4", currentWorkspace ? "opacity-0" : "opacity-100")} />
+            Personal
+          </DropdownMenuItem>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onSelect={() => onSelect(workspace.id)}>
+              <Check
+                className={cn("mr-2 h-4 w-4", currentWorkspace?.id === workspace.id ? "opacity-100" : "opacity-0")}
+              />
+              <span className="truncate">{workspace.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {currentWorkspace && (
+            <DropdownMenuItem onSelect={() => setIsManaging(true)}>
+              <Users className="mr-2 h-4 w-4" />
+              Members
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                placeholder="e.g. Marketing team"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving ? "Creating..." : "Create Workspace"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Mounted only while open, so members load when the dialog is shown */}
+      {currentWorkspace && isManaging && (
+        <WorkspaceMembersDialog
+          workspace={currentWorkspace}
+          open={isManaging}
+          onOpenChange={setIsManaging}
+          onLeave={() => {
+            setIsManaging(false);
+            onLeave();
+          }}
+        />
+      )}
+    </>
+  );
+};
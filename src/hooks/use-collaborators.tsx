@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Collaborator {
+  id: string;
+  email: string;
+}
+
+/**
+ * One cached list for every task card and assignee picker. Task writes that change an
+ * assignee invalidate it (see useTaskMutations).
+ */
+export const collaboratorKeys = {
+  all: ['collaborators'] as const,
+};
+
+const NO_COLLABORATORS: Collaborator[] = [];
+
+async function fetchCollaborators(): Promise<Collaborator[]> {
+  const { data, error } = await supabase.rpc('get_task_collaborators');
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Loads the people the current user can assign tasks to: those they share tasks with, in
+ * either direction, and fellow members of their workspaces
+ */
+export const useCollaborators = () => {
+  const query = useQuery({
+    queryKey: collaboratorKeys.all,
+    queryFn: fetchCollaborators,
+  });
+
+  const collaborators = query.data ?? NO_COLLABORATORS;
+
+  const getEmail = useCallback(
+    (id: string | null) => collaborators.find((person) => person.id === id)?.email,
+    [collaborators]
+  );
+
+  return {
+    collaborators,
+    loading: query.isPending,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+    getEmail,
+  };
+};
@@ -17,6 +17,8 @@ interface UseEmailNotificationsReturn {
     to: string;
     taskName: string;
     dueDate?: string;
+    dueAt?: string;
+    timeZone?: string;
     description?: string;
     url?: string;
   }) => Promise<EmailResponse | null>;
@@ -26,6 +28,8 @@ interface UseEmailNotificationsReturn {
     assignedBy: string;
     description?: string;
     dueDate?: string;
+    dueAt?: string;
+    timeZone?: string;
     url?: string;
   }) => Promise<EmailResponse | null>;
   sendTaskCompleted: (params: {
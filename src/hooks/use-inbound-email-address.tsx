@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EmailNotificationClient } from '@/api/notifications';
+
+/**
+ * Loads the current user's address for creating tasks by email and replaces it on request.
+ * `address` stays null when inbound email is not set up.
+ */
+export const useInboundEmailAddress = () => {
+  const [address, setAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    EmailNotificationClient.getInboundAddress()
+      .then((loaded) => {
+        setAddress(loaded);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const regenerate = useCallback(async () => {
+    const next = await EmailNotificationClient.regenerateInboundAddress();
+    setAddress(next);
+    return next;
+  }, []);
+
+  return { address, loading, error, regenerate };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EmailNotificationClient } from '@/api/notifications';
+import type { EmailTemplate, NotificationPreference } from '@/api/notifications';
+
+/**
+ * Loads the current user's per-template email preferences and saves changes to them
+ */
+export const useNotificationPreferences = () => {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPreferences(await EmailNotificationClient.getPreferences());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updatePreference = useCallback(
+    async (template: EmailTemplate, updates: Partial<Omit<NotificationPreference, 'template'>>) => {
+      const saved = await EmailNotificationClient.updatePreference(template, updates);
+      setPreferences((prev) => prev.map((pref) => (pref.template === template ? saved : pref)));
+      return saved;
+    },
+    []
+  );
+
+  const getPreference = useCallback(
+    (template: EmailTemplate) => preferences.find((pref) => pref.template === template),
+    [preferences]
+  );
+
+  return { preferences, loading, error, refresh, updatePreference, getPreference };
+};
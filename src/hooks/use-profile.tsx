@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { getBrowserTimeZone } from '@/lib/timezone';
+
+export type Profile = Tables<'profiles'>;
+
+/**
+ * Loads and updates the signed-in user's profile settings
+ */
+export const useProfile = () => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading profile:', error);
+    }
+
+    setProfile(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Upserts so users created before profiles existed still get a row
+   */
+  const updateProfile = useCallback(async (updates: Omit<TablesUpdate<'profiles'>, 'id'>) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be logged in to update settings');
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert({ id: user.id, ...updates })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setProfile(data);
+    return data;
+  }, []);
+
+  // Fall back to the browser's zone until the profile has one stored
+  const timeZone = profile?.time_zone ?? getBrowserTimeZone();
+
+  return { profile, timeZone, loading, refresh, updateProfile };
+};
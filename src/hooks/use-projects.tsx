@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Project = Tables<'projects'>;
+
+export const PROJECT_COLORS = [
+  '#6366f1',
+  '#ef4444',
+  '#f59e0b',
+  '#10b981',
+  '#0ea5e9',
+  '#8b5cf6',
+  '#ec4899',
+  '#64748b',
+];
+
+/**
+ * Loads the current user's projects, archived ones included, ordered by name
+ */
+export const useProjects = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setProjects(data || []);
+      setError(null);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    projects,
+    activeProjects: projects.filter((project) => !project.archived),
+    archivedProjects: projects.filter((project) => project.archived),
+    loading,
+    error,
+    refresh,
+  };
+};
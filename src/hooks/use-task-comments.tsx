@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { extractMentions, type Mentionable } from '@/lib/mentions';
+
+export type TaskComment = Tables<'task_comments'>;
+
+/**
+ * Loads a task's comments, oldest first, and everyone who can take part in the discussion
+ * (and so be @mentioned). Pass null to load nothing, e.g. while the drawer is closed.
+ */
+export const useTaskComments = (taskId: string | null) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [participants, setParticipants] = useState<Mentionable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!taskId) {
+      setComments([]);
+      setParticipants([]);
+      setLoading(false);
+      return;
+    }
+
+    const [commentsResult, participantsResult] = await Promise.all([
+      supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true }),
+      supabase.rpc('get_task_participants', { target_task_id: taskId }),
+    ]);
+
+    const loadError = commentsResult.error ?? participantsResult.error;
+    if (loadError) {
+      setError(loadError.message);
+    } else {
+      setComments(commentsResult.data || []);
+      setParticipants(participantsResult.data || []);
+      setError(null);
+    }
+    setLoading(false);
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Post a comment. Everyone @mentioned by email address is notified.
+   */
+  const addComment = useCallback(async (body: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be logged in to comment');
+    }
+
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({
+        task_id: taskId,
+        user_id: user.id,
+        body: body.trim(),
+        mentions: extractMentions(body, participants.filter((person) => person.id !== user.id)),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setComments((prev) => [...prev, data]);
+    return data;
+  }, [taskId, participants]);
+
+  const deleteComment = useCallback(async (id: string) => {
+    const { error } = await supabase.from('task_comments').delete().eq('id', id);
+
+    if (error) throw error;
+
+    setComments((prev) => prev.filter((comment) => comment.id !== id));
+  }, []);
+
+  const getEmail = useCallback(
+    (id: string) => participants.find((person) => person.id === id)?.email,
+    [participants]
+  );
+
+  return { comments, participants, loading, error, refresh, addComment, deleteComment, getEmail };
+};
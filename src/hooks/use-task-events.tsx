@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TaskEvent = Tables<'task_events'>;
+
+/**
+ * Loads a task's change history, newest first. Pass null to load nothing, e.g. while the
+ * timeline is hidden.
+ */
+export const useTaskEvents = (taskId: string | null) => {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!taskId) {
+      setEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('task_events')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setEvents(data || []);
+      setError(null);
+    }
+    setLoading(false);
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  return { events, loading, error, refresh };
+};
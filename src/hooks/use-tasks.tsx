@@ -0,0 +1,592 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { collaboratorKeys } from '@/hooks/use-collaborators';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { format, parseISO } from 'date-fns';
+import {
+  advanceRecurrenceRule,
+  getNextOccurrence,
+  occursOn,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+} from '@/lib/recurrence';
+import { getTimeInTimeZone, getTodayInTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+
+export type TaskItem = Tables<'task_items'>;
+
+export type Task = Tables<'tasks'> & {
+  task_items: TaskItem[];
+  task_comments: { count: number }[];
+};
+
+export type TaskView = 'today' | 'overdue' | 'date' | 'project' | 'all';
+
+export interface TaskFilters {
+  view: TaskView;
+  /** 'yyyy-MM-dd': the day shown, or today in the user's zone for the today and overdue views */
+  date?: string;
+  projectId?: string;
+  /** Only tasks in this workspace, or only personal tasks when null */
+  workspaceId?: string | null;
+}
+
+export interface TaskListData {
+  tasks: Task[];
+  /**
+   * Future occurrences of recurring tasks that land on the shown calendar day but were not
+   * generated yet. Always empty on Today, where those tasks show as overdue.
+   */
+  projected: Task[];
+}
+
+/**
+ * Task lists share one cache, keyed ['tasks', view, filters]. Moving between Index and
+ * Calendar starts from the cached lists, and every write updates all of them at once.
+ */
+export const taskKeys = {
+  all: ['tasks'] as const,
+  list: (filters: TaskFilters) => ['tasks', filters.view, filters] as const,
+};
+
+const TASK_SELECT = '*, task_items(*), task_comments(count)';
+
+const NO_TASKS: Task[] = [];
+
+// Open recurring tasks due before `day` whose series also lands on `day`
+async function fetchProjectedTasks(day: string, filters: TaskFilters): Promise<Task[]> {
+  let query = supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .is('deleted_at', null)
+    .not('recurrence_rule', 'is', null)
+    .eq('completed', false)
+    .lt('due_date', day);
+
+  if (filters.projectId) {
+    query = query.eq('project_id', filters.projectId);
+  }
+
+  if (filters.workspaceId !== undefined) {
+    query = filters.workspaceId ? query.eq('workspace_id', filters.workspaceId) : query.is('workspace_id', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((task) => {
+      const rule = parseRecurrenceRule(task.recurrence_rule);
+      return rule && occursOn(rule, parseISO(task.due_date), parseISO(day));
+    })
+    .map((task) => ({ ...task, due_date: day, due_at: null }));
+}
+
+async function fetchTaskList(filters: TaskFilters): Promise<TaskListData> {
+  let query = supabase.from('tasks').select(TASK_SELECT).is('deleted_at', null);
+
+  if (filters.view === 'overdue') {
+    query = query.lt('due_date', filters.date).eq('completed', false).order('due_date', { ascending: true });
+  } else if (filters.view === 'today') {
+    query = query.or(`due_date.eq.${filters.date},due_date.is.null`).eq('completed', false);
+  } else if (filters.view === 'date') {
+    query = query.eq('due_date', filters.date);
+  }
+
+  if (filters.projectId) {
+    query = query.eq('project_id', filters.projectId);
+  }
+
+  if (filters.workspaceId !== undefined) {
+    query = filters.workspaceId ? query.eq('workspace_id', filters.workspaceId) : query.is('workspace_id', null);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  // On Today every series due before today is overdue and already listed in the Overdue
+  // section, so only other days get projections
+  const projected = filters.view === 'date' ? await fetchProjectedTasks(filters.date, filters) : [];
+
+  return { tasks: data || [], projected };
+}
+
+// Whether a task belongs in a list, mirroring the filters in fetchTaskList
+function belongsInView(filters: TaskFilters, task: Task): boolean {
+  if (task.deleted_at) return false;
+
+  if (filters.view === 'overdue') {
+    if (task.completed || !task.due_date || task.due_date >= filters.date) return false;
+  } else if (filters.view === 'today') {
+    if (task.completed || (task.due_date && task.due_date !== filters.date)) return false;
+  } else if (filters.view === 'date') {
+    if (task.due_date !== filters.date) return false;
+  }
+
+  if (filters.projectId && task.project_id !== filters.projectId) return false;
+  if (filters.workspaceId !== undefined && (task.workspace_id ?? null) !== filters.workspaceId) return false;
+
+  return true;
+}
+
+// Same order as fetchTaskList: overdue by due date, everything else newest first
+const compareTasks = (filters: TaskFilters) => (a: Task, b: Task) =>
+  filters.view === 'overdue' && a.due_date !== b.due_date
+    ? a.due_date.localeCompare(b.due_date)
+    : b.created_at.localeCompare(a.created_at);
+
+/**
+ * Put a new or changed task into a list, or take it out when it no longer matches
+ */
+function mergeTask(data: TaskListData, filters: TaskFilters, task: Task): TaskListData {
+  const others = data.tasks.filter((existing) => existing.id !== task.id);
+  return {
+    ...data,
+    tasks: belongsInView(filters, task) ? [...others, task].sort(compareTasks(filters)) : others,
+  };
+}
+
+function removeTask(data: TaskListData, id: string): TaskListData {
+  return {
+    tasks: data.tasks.filter((task) => task.id !== id),
+    projected: data.projected.filter((task) => task.id !== id),
+  };
+}
+
+type CachedLists = [QueryKey, TaskListData | undefined][];
+
+type ListUpdate = (data: TaskListData, filters: TaskFilters) => TaskListData;
+
+/**
+ * Stop in-flight refetches (they would overwrite the optimistic state) and snapshot every
+ * cached list for rollback
+ */
+async function snapshotLists(queryClient: QueryClient): Promise<CachedLists> {
+  await queryClient.cancelQueries({ queryKey: taskKeys.all });
+  return queryClient.getQueriesData<TaskListData>({ queryKey: taskKeys.all });
+}
+
+function updateLists(queryClient: QueryClient, lists: CachedLists, update: ListUpdate) {
+  for (const [key, data] of lists) {
+    if (data) queryClient.setQueryData(key, update(data, key[2] as TaskFilters));
+  }
+}
+
+function restoreLists(queryClient: QueryClient, lists: CachedLists | undefined) {
+  for (const [key, data] of lists ?? []) {
+    queryClient.setQueryData(key, data);
+  }
+}
+
+// The latest copy of a task in any cached list, so a change can move it between views
+function findCachedTask(lists: CachedLists, id: string): Task | undefined {
+  return lists.flatMap(([, data]) => data?.tasks ?? []).find((task) => task.id === id);
+}
+
+// Apply `update` to one task's checklist, wherever the task is listed
+function updateItems(data: TaskListData, taskId: string, update: (items: TaskItem[]) => TaskItem[]): TaskListData {
+  const apply = (tasks: Task[]) =>
+    tasks.map((task) => (task.id === taskId ? { ...task, task_items: update(task.task_items ?? []) } : task));
+  return { tasks: apply(data.tasks), projected: apply(data.projected) };
+}
+
+/**
+ * Create the next instance of a recurring task. Returns its due date, or null when the
+ * series has ended or the next instance already exists.
+ */
+async function createNextOccurrence(task: Task, timeZone: string): Promise<Date | null> {
+  const recurrence = parseRecurrenceRule(task.recurrence_rule);
+  const nextRule = recurrence && advanceRecurrenceRule(recurrence);
+  if (!nextRule) return null;
+
+  const nextDate = getNextOccurrence(nextRule, parseISO(task.due_date ?? getTodayInTimeZone(timeZone)));
+  if (!nextDate) return null;
+
+  const nextDueDate = format(nextDate, 'yyyy-MM-dd');
+  const dueTime = task.due_at ? getTimeInTimeZone(task.due_at, timeZone) : null;
+
+  // The next occurrence stays with the owner, assignee and workspace, whoever completed this one
+  const { data: nextTask, error } = await supabase.from('tasks').insert({
+    user_id: task.user_id,
+    assignee_id: task.assignee_id,
+    workspace_id: task.workspace_id ?? null,
+    name: task.name,
+    description: task.description,
+    priority: task.priority,
+    priority_reasoning: task.priority_reasoning,
+    priority_source: task.priority_source,
+    due_date: nextDueDate,
+    // Keep the same wall-clock due time on the next day of the series
+    due_at: dueTime ? zonedTimeToUtc(nextDueDate, dueTime, timeZone).toISOString() : null,
+    project_id: task.project_id,
+    tags: task.tags,
+    recurrence_rule: serializeRecurrenceRule(nextRule),
+    recurrence_parent_id: task.id,
+  }).select().single();
+
+  // A unique violation means this instance was already completed once and its successor exists
+  if (error?.code === '23505') return null;
+  if (error) throw error;
+
+  // Carry the checklist over, unchecked, to the next occurrence
+  if (task.task_items?.length) {
+    const { error: itemsError } = await supabase.from('task_items').insert(
+      task.task_items.map((item) => ({
+        task_id: nextTask.id,
+        user_id: task.user_id,
+        name: item.name,
+        position: item.position,
+      }))
+    );
+
+    if (itemsError) throw itemsError;
+  }
+
+  return nextDate;
+}
+
+/**
+ * Apply one Realtime change to every cached list. The changed row is loaded once, however
+ * many lists are on screen.
+ */
+async function applyTaskChange(queryClient: QueryClient, payload: RealtimePostgresChangesPayload<Tables<'tasks'>>) {
+  if (payload.eventType === 'DELETE') {
+    const removedId = payload.old.id;
+    updateLists(queryClient, queryClient.getQueriesData<TaskListData>({ queryKey: taskKeys.all }), (data) =>
+      removeTask(data, removedId)
+    );
+    return;
+  }
+
+  // The payload is the bare row, so load it again with its checklist and comment count.
+  // A task that was just deleted comes back empty and leaves every list.
+  const changedId = payload.new.id;
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .eq('id', changedId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) return;
+
+  const lists = queryClient.getQueriesData<TaskListData>({ queryKey: taskKeys.all });
+  const wasProjected = lists.some(([, data]) => data?.projected.some((projected) => projected.id === changedId));
+
+  updateLists(queryClient, lists, (data, filters) =>
+    task ? mergeTask(data, filters, task) : removeTask(data, changedId)
+  );
+
+  // A recurring series may now land on (or leave) a shown day, so those lists load again
+  if (payload.new.recurrence_rule || wasProjected) {
+    queryClient.invalidateQueries({ queryKey: taskKeys.all, predicate: ({ queryKey }) => queryKey[1] === 'date' });
+  }
+}
+
+// Every mounted task list shares one Realtime channel; the last one to unmount closes it
+let taskChannel: RealtimeChannel | null = null;
+let taskChannelListeners = 0;
+
+function subscribeToTaskChanges(queryClient: QueryClient): () => void {
+  taskChannelListeners++;
+
+  if (!taskChannel) {
+    taskChannel = supabase
+      .channel('tasks')
+      .on<Tables<'tasks'>>('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, (payload) => {
+        applyTaskChange(queryClient, payload);
+      })
+      .subscribe();
+  }
+
+  return () => {
+    taskChannelListeners--;
+
+    if (taskChannelListeners === 0 && taskChannel) {
+      supabase.removeChannel(taskChannel);
+      taskChannel = null;
+    }
+  };
+}
+
+interface UseTasksOptions {
+  todayOnly?: boolean;
+  /** Open tasks whose due date has passed, oldest first */
+  overdue?: boolean;
+  date?: Date;
+  projectId?: string;
+  workspaceId?: string | null;
+  /** IANA zone that decides which calendar day is "today" */
+  timeZone: string;
+}
+
+/**
+ * One cached task list. Changes made anywhere else (another tab or device, the voice
+ * assistant, an edge function) are merged in live through the shared Realtime channel.
+ */
+export const useTasks = ({ todayOnly = false, overdue = false, date, projectId, workspaceId, timeZone }: UseTasksOptions) => {
+  const queryClient = useQueryClient();
+  const today = getTodayInTimeZone(timeZone);
+  const dateStr = date ? format(date, 'yyyy-MM-dd') : undefined;
+
+  const filters = useMemo<TaskFilters>(
+    () => ({
+      view: overdue ? 'overdue' : todayOnly ? 'today' : dateStr ? 'date' : projectId ? 'project' : 'all',
+      date: overdue || todayOnly ? today : dateStr,
+      projectId,
+      workspaceId,
+    }),
+    [overdue, todayOnly, today, dateStr, projectId, workspaceId]
+  );
+
+  const query = useQuery({
+    queryKey: taskKeys.list(filters),
+    queryFn: () => fetchTaskList(filters),
+  });
+
+  useEffect(() => subscribeToTaskChanges(queryClient), [queryClient]);
+
+  return {
+    tasks: query.data?.tasks ?? NO_TASKS,
+    projectedTasks: query.data?.projected ?? NO_TASKS,
+    loading: query.isPending,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+  };
+};
+
+/**
+ * Task writes. Each one updates every cached list right away and rolls back if the write
+ * fails; the lists are refetched once it settles. Checklist changes touch nothing but the
+ * item, so they skip the refetch.
+ */
+export const useTaskMutations = () => {
+  const queryClient = useQueryClient();
+
+  const invalidateTasks = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: taskKeys.all }),
+    [queryClient]
+  );
+
+  // Assigning someone can add them to the people the current user shares tasks with
+  const invalidateCollaborators = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: collaboratorKeys.all }),
+    [queryClient]
+  );
+
+  function rollback<TVariables>(_error: Error, _variables: TVariables, context: { previous: CachedLists } | undefined) {
+    restoreLists(queryClient, context?.previous);
+  }
+
+  // The AI's priority lands a few seconds later; Realtime and the refetch pick it up
+  const prioritize = (taskId: string, description: string) => {
+    supabase.functions
+      .invoke('prioritize-task', { body: { taskId, description } })
+      .then(({ error }) => {
+        if (error) throw error;
+      })
+      .catch((priorityError) => console.error('Priority error:', priorityError))
+      .finally(invalidateTasks);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ task, prioritizeFrom }: { task: TablesInsert<'tasks'> & { id: string }; prioritizeFrom?: string }) => {
+      const { data, error } = await supabase.from('tasks').insert(task).select().single();
+
+      if (error) throw error;
+
+      if (prioritizeFrom) prioritize(data.id, prioritizeFrom);
+      return data;
+    },
+    onMutate: async ({ task }) => {
+      const previous = await snapshotLists(queryClient);
+      const now = new Date().toISOString();
+      const optimisticTask: Task = {
+        assignee_id: null,
+        completed: false,
+        created_at: now,
+        deleted_at: null,
+        description: null,
+        due_at: null,
+        due_date: null,
+        priority: null,
+        priority_reasoning: null,
+        priority_source: 'ai',
+        project_id: null,
+        recurrence_parent_id: null,
+        recurrence_rule: null,
+        tags: [],
+        updated_at: now,
+        workspace_id: null,
+        ...task,
+        task_items: [],
+        task_comments: [{ count: 0 }],
+      };
+      updateLists(queryClient, previous, (data, filters) => mergeTask(data, filters, optimisticTask));
+      return { previous };
+    },
+    onError: rollback,
+    onSettled: (_data, _error, { task }) => {
+      if (task.assignee_id) invalidateCollaborators();
+      return invalidateTasks();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes, prioritizeFrom }: { id: string; changes: TablesUpdate<'tasks'>; prioritizeFrom?: string }) => {
+      const { error } = await supabase.from('tasks').update(changes).eq('id', id);
+
+      if (error) throw error;
+
+      if (prioritizeFrom) prioritize(id, prioritizeFrom);
+    },
+    onMutate: async ({ id, changes }) => {
+      const previous = await snapshotLists(queryClient);
+      const current = findCachedTask(previous, id);
+      if (current) {
+        updateLists(queryClient, previous, (data, filters) => mergeTask(data, filters, { ...current, ...changes }));
+      }
+      const assigneeChanged = changes.assignee_id !== undefined && changes.assignee_id !== current?.assignee_id;
+      return { previous, assigneeChanged };
+    },
+    onError: rollback,
+    onSettled: (_data, _error, _variables, context) => {
+      if (context?.assigneeChanged) invalidateCollaborators();
+      return invalidateTasks();
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ task, completed, timeZone }: { task: Task; completed: boolean; timeZone: string }) => {
+      const { error } = await supabase.from('tasks').update({ completed }).eq('id', task.id);
+
+      if (error) throw error;
+
+      return completed ? createNextOccurrence(task, timeZone) : null;
+    },
+    onMutate: async ({ task, completed }) => {
+      const previous = await snapshotLists(queryClient);
+      const current = findCachedTask(previous, task.id) ?? task;
+      updateLists(queryClient, previous, (data, filters) => mergeTask(data, filters, { ...current, completed }));
+      return { previous };
+    },
+    onError: rollback,
+    onSettled: invalidateTasks,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('tasks').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      const previous = await snapshotLists(queryClient);
+      updateLists(queryClient, previous, (data) => removeTask(data, id));
+      return { previous };
+    },
+    onError: rollback,
+    onSettled: invalidateTasks,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (task: Task) => {
+      // Deleting only marked the task, so its checklist, comments and history are still there
+      const { error } = await supabase.rpc('restore_task', { target_task_id: task.id });
+
+      if (error) throw error;
+    },
+    onMutate: async (task) => {
+      const previous = await snapshotLists(queryClient);
+      updateLists(queryClient, previous, (data, filters) => mergeTask(data, filters, task));
+      return { previous };
+    },
+    onError: rollback,
+    onSettled: invalidateTasks,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async (item: TablesInsert<'task_items'> & { id: string }) => {
+      const { error } = await supabase.from('task_items').insert(item);
+
+      if (error) throw error;
+    },
+    onMutate: async (item) => {
+      const previous = await snapshotLists(queryClient);
+      const now = new Date().toISOString();
+      const optimisticItem: TaskItem = { completed: false, created_at: now, position: 0, updated_at: now, ...item };
+      updateLists(queryClient, previous, (data) => updateItems(data, item.task_id, (items) => [...items, optimisticItem]));
+      return { previous };
+    },
+    onError: rollback,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ item, changes }: { item: TaskItem; changes: TablesUpdate<'task_items'> }) => {
+      const { error } = await supabase.from('task_items').update(changes).eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ item, changes }) => {
+      const previous = await snapshotLists(queryClient);
+      updateLists(queryClient, previous, (data) =>
+        updateItems(data, item.task_id, (items) =>
+          items.map((existing) => (existing.id === item.id ? { ...existing, ...changes } : existing))
+        )
+      );
+      return { previous };
+    },
+    onError: rollback,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (item: TaskItem) => {
+      const { error } = await supabase.from('task_items').delete().eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onMutate: async (item) => {
+      const previous = await snapshotLists(queryClient);
+      updateLists(queryClient, previous, (data) =>
+        updateItems(data, item.task_id, (items) => items.filter((existing) => existing.id !== item.id))
+      );
+      return { previous };
+    },
+    onError: rollback,
+  });
+
+  return {
+    /**
+     * Create a task. Pass `prioritizeFrom` (the description) to have the AI pick its priority.
+     */
+    createTask: (task: TablesInsert<'tasks'>, options: { prioritizeFrom?: string } = {}) =>
+      // The id is picked here so the optimistic copy and the saved row are the same task
+      createMutation.mutateAsync({ task: { id: crypto.randomUUID(), ...task }, ...options }),
+    /**
+     * Change a task's fields. Pass `prioritizeFrom` (the description) to have the AI pick its
+     * priority again afterwards.
+     */
+    updateTask: (id: string, changes: TablesUpdate<'tasks'>, options: { prioritizeFrom?: string } = {}) =>
+      updateMutation.mutateAsync({ id, changes, ...options }),
+    /**
+     * Complete or reopen a task. Completing a recurring task creates its next occurrence,
+     * whose due date is returned.
+     */
+    setCompleted: (task: Task, completed: boolean, timeZone: string) =>
+      completeMutation.mutateAsync({ task, completed, timeZone }),
+    deleteTask: (id: string) => deleteMutation.mutateAsync(id),
+    /**
+     * Undo a delete. The task comes back with its checklist, comments and history.
+     */
+    restoreTask: (task: Task) => restoreMutation.mutateAsync(task),
+    addItem: (item: TablesInsert<'task_items'>) =>
+      addItemMutation.mutateAsync({ id: crypto.randomUUID(), ...item }),
+    updateItem: (item: TaskItem, changes: TablesUpdate<'task_items'>) =>
+      updateItemMutation.mutateAsync({ item, changes }),
+    deleteItem: (item: TaskItem) => deleteItemMutation.mutateAsync(item),
+    invalidateTasks,
+  };
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { EmailNotificationClient } from '@/api/notifications';
+import { hasWorkspaceRole, type Workspace, type WorkspaceRole } from './use-workspaces';
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export type WorkspaceInvitation = Tables<'workspace_invitations'>;
+
+export type InvitableRole = Exclude<WorkspaceRole, 'owner'>;
+
+/**
+ * Loads a workspace's members and, for admins, its pending invitations. Inviting someone
+ * creates the invitation and emails them the accept link.
+ */
+export const useWorkspaceMembers = (workspace: Workspace | null) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const workspaceId = workspace?.id;
+  const isAdmin = hasWorkspaceRole(workspace?.role, 'admin');
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setMembers([]);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    const [membersResult, invitationsResult] = await Promise.all([
+      supabase.rpc('get_workspace_members', { target_workspace_id: workspaceId }),
+      isAdmin
+        ? supabase
+            .from('workspace_invitations')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .is('accepted_at', null)
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [] as WorkspaceInvitation[], error: null }),
+    ]);
+
+    const loadError = membersResult.error ?? invitationsResult.error;
+    if (loadError) {
+      setError(loadError.message);
+    } else {
+      setMembers((membersResult.data || []) as WorkspaceMember[]);
+      setInvitations(invitationsResult.data || []);
+      setError(null);
+    }
+    setLoading(false);
+  }, [workspaceId, isAdmin]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const sendInvitation = useCallback(async (invitation: WorkspaceInvitation, idempotencyKey?: string) => {
+    if (!workspace) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    await EmailNotificationClient.sendWorkspaceInvite(
+      {
+        to: invitation.email,
+        workspaceName: workspace.name,
+        invitedBy: user?.email ?? 'A teammate',
+        role: invitation.role as InvitableRole,
+        acceptUrl: `${window.location.origin}/invite?token=${invitation.token}`,
+        expiresAt: invitation.expires_at,
+      },
+      { idempotencyKey }
+    );
+  }, [workspace]);
+
+  /**
+   * Invite someone by email address. The invitation is kept even if the email fails, so
+   * it can be resent.
+   */
+  const invite = useCallback(async (email: string, role: InvitableRole) => {
+    if (!workspaceId) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be logged in to invite people');
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert({ workspace_id: workspaceId, email: email.trim().toLowerCase(), role, invited_by: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setInvitations((prev) => [data, ...prev]);
+    // Keyed by the invitation so a retried request does not email twice
+    await sendInvitation(data, `workspace-invite:${data.id}`);
+  }, [workspaceId, sendInvitation]);
+
+  const resendInvitation = useCallback(async (invitation: WorkspaceInvitation) => {
+    await sendInvitation(invitation);
+  }, [sendInvitation]);
+
+  const revokeInvitation = useCallback(async (id: string) => {
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', id);
+
+    if (error) throw error;
+
+    setInvitations((prev) => prev.filter((invitation) => invitation.id !== id));
+  }, []);
+
+  const updateRole = useCallback(async (userId: string, role: InvitableRole) => {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    setMembers((prev) => prev.map((member) => (member.user_id === userId ? { ...member, role } : member)));
+  }, [workspaceId]);
+
+  /**
+   * Remove a member, or leave the workspace when `userId` is the current user
+   */
+  const removeMember = useCallback(async (userId: string) => {
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    setMembers((prev) => prev.filter((member) => member.user_id !== userId));
+  }, [workspaceId]);
+
+  return {
+    members,
+    invitations,
+    loading,
+    error,
+    refresh,
+    invite,
+    resendInvitation,
+    revokeInvitation,
+    updateRole,
+    removeMember,
+  };
+};
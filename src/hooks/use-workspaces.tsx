@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export type Workspace = Tables<'workspaces'> & { role: WorkspaceRole };
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 1, member: 2, admin: 3, owner: 4 };
+
+/**
+ * Whether `role` grants at least what `minRole` does, e.g. admins can do what members can
+ */
+export const hasWorkspaceRole = (role: WorkspaceRole | undefined, minRole: WorkspaceRole) =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[minRole];
+
+const CURRENT_WORKSPACE_KEY = 'currentWorkspaceId';
+
+/**
+ * Loads the workspaces the current user belongs to, with their role in each, and tracks
+ * which one is open. `currentWorkspace` is null for the personal space; the choice is
+ * remembered in this browser.
+ */
+export const useWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceIdState] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_WORKSPACE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const setCurrentWorkspaceId = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(CURRENT_WORKSPACE_KEY, id);
+    } else {
+      localStorage.removeItem(CURRENT_WORKSPACE_KEY);
+    }
+    setCurrentWorkspaceIdState(id);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setWorkspaces([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', user.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      const loaded = (data || [])
+        .filter((membership) => membership.workspaces)
+        .map((membership) => ({ ...membership.workspaces, role: membership.role as WorkspaceRole }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      setWorkspaces(loaded);
+      // A remembered workspace the user has since left falls back to the personal space
+      const storedId = localStorage.getItem(CURRENT_WORKSPACE_KEY);
+      if (storedId && !loaded.some((workspace) => workspace.id === storedId)) {
+        setCurrentWorkspaceId(null);
+      }
+      setError(null);
+    }
+    setLoading(false);
+  }, [setCurrentWorkspaceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Create a workspace owned by the current user and switch to it
+   */
+  const createWorkspace = useCallback(async (name: string): Promise<Workspace> => {
+    const { data, error } = await supabase.rpc('create_workspace', { workspace_name: name });
+
+    if (error) throw error;
+
+    const created: Workspace = { ...data, role: 'owner' };
+    setWorkspaces((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+    setCurrentWorkspaceId(created.id);
+    return created;
+  }, [setCurrentWorkspaceId]);
+
+  const currentWorkspace = workspaces.find((workspace) => workspace.id === currentWorkspaceId) ?? null;
+
+  return {
+    workspaces,
+    currentWorkspace,
+    loading,
+    error,
+    refresh,
+    setCurrentWorkspaceId,
+    createWorkspace,
+  };
+};
@@ -14,42 +14,717 @@ export type Database = {
   }
   public: {
     Tables: {
+      daily_digests: {
+        Row: {
+          created_at: string
+          digest_date: string
+          email_log_id: string | null
+          email_outbox_id: string | null
+          id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          digest_date: string
+          email_log_id?: string | null
+          email_outbox_id?: string | null
+          id?: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          digest_date?: string
+          email_log_id?: string | null
+          email_outbox_id?: string | null
+          id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_digests_email_log_id_fkey"
+            columns: ["email_log_id"]
+            isOneToOne: false
+            referencedRelation: "email_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "daily_digests_email_outbox_id_fkey"
+            columns: ["email_outbox_id"]
+            isOneToOne: false
+            referencedRelation: "email_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_logs: {
+        Row: {
+          created_at: string | null
+          error_message: string | null
+          id: string
+          recipient: string
+          status: string
+          subject: string
+          template: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipient: string
+          status: string
+          subject: string
+          template?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipient?: string
+          status?: string
+          subject?: string
+          template?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          email_log_id: string | null
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          request: Json
+          status: string
+          subject: string
+          template: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          email_log_id?: string | null
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient: string
+          request: Json
+          status?: string
+          subject: string
+          template?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          email_log_id?: string | null
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient?: string
+          request?: Json
+          status?: string
+          subject?: string
+          template?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_email_log_id_fkey"
+            columns: ["email_log_id"]
+            isOneToOne: false
+            referencedRelation: "email_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_plans: {
+        Row: {
+          created_at: string
+          max_emails_per_day: number
+          max_emails_per_hour: number
+          max_failures_per_day: number
+          plan: string
+        }
+        Insert: {
+          created_at?: string
+          max_emails_per_day: number
+          max_emails_per_hour: number
+          max_failures_per_day: number
+          plan: string
+        }
+        Update: {
+          created_at?: string
+          max_emails_per_day?: number
+          max_emails_per_hour?: number
+          max_failures_per_day?: number
+          plan?: string
+        }
+        Relationships: []
+      }
+      inbound_email_addresses: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      inbound_emails: {
+        Row: {
+          created_at: string
+          id: string
+          reason: string | null
+          recipient: string
+          sender: string
+          status: string
+          subject: string | null
+          task_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reason?: string | null
+          recipient: string
+          sender: string
+          status: string
+          subject?: string | null
+          task_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reason?: string | null
+          recipient?: string
+          sender?: string
+          status?: string
+          subject?: string | null
+          task_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_emails_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          quiet_hours_end: number | null
+          quiet_hours_start: number | null
+          template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          auto_rollover: boolean
+          created_at: string
+          digest_hour: number
+          id: string
+          locale: string | null
+          reminder_window_hours: number
+          time_zone: string | null
+          updated_at: string
+        }
+        Insert: {
+          auto_rollover?: boolean
+          created_at?: string
+          digest_hour?: number
+          id: string
+          locale?: string | null
+          reminder_window_hours?: number
+          time_zone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          auto_rollover?: boolean
+          created_at?: string
+          digest_hour?: number
+          id?: string
+          locale?: string | null
+          reminder_window_hours?: number
+          time_zone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          archived: boolean
+          color: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      task_comments: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          actor: string
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          event_type: string
+          id: string
+          task_id: string
+        }
+        Insert: {
+          actor: string
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          event_type: string
+          id?: string
+          task_id: string
+        }
+        Update: {
+          actor?: string
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          event_type?: string
+          id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_items: {
+        Row: {
+          completed: boolean
+          created_at: string
+          id: string
+          name: string
+          position: number
+          task_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          task_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          task_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_reminders: {
+        Row: {
+          created_at: string
+          due_for: string
+          email_log_id: string | null
+          email_outbox_id: string | null
+          id: string
+          status: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_for: string
+          email_log_id?: string | null
+          email_outbox_id?: string | null
+          id?: string
+          status?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_for?: string
+          email_log_id?: string | null
+          email_outbox_id?: string | null
+          id?: string
+          status?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_reminders_email_log_id_fkey"
+            columns: ["email_log_id"]
+            isOneToOne: false
+            referencedRelation: "email_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_reminders_email_outbox_id_fkey"
+            columns: ["email_outbox_id"]
+            isOneToOne: false
+            referencedRelation: "email_outbox"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_reminders_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
+          assignee_id: string | null
           completed: boolean
           created_at: string
+          deleted_at: string | null
           description: string | null
+          due_at: string | null
           due_date: string | null
           id: string
           name: string
           priority: string | null
           priority_reasoning: string | null
+          priority_source: string
+          project_id: string | null
+          recurrence_parent_id: string | null
+          recurrence_rule: string | null
+          tags: string[]
           updated_at: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
+          assignee_id?: string | null
           completed?: boolean
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          due_at?: string | null
           due_date?: string | null
           id?: string
           name: string
           priority?: string | null
           priority_reasoning?: string | null
+          priority_source?: string
+          project_id?: string | null
+          recurrence_parent_id?: string | null
+          recurrence_rule?: string | null
+          tags?: string[]
           updated_at?: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
+          assignee_id?: string | null
           completed?: boolean
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          due_at?: string | null
           due_date?: string | null
           id?: string
           name?: string
           priority?: string | null
           priority_reasoning?: string | null
+          priority_source?: string
+          project_id?: string | null
+          recurrence_parent_id?: string | null
+          recurrence_rule?: string | null
+          tags?: string[]
           updated_at?: string
           user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_parent_id_fkey"
+            columns: ["recurrence_parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_email_limits: {
+        Row: {
+          created_at: string
+          max_emails_per_day: number | null
+          max_emails_per_hour: number | null
+          max_failures_per_day: number | null
+          plan: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          max_emails_per_day?: number | null
+          max_emails_per_hour?: number | null
+          max_failures_per_day?: number | null
+          plan?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          max_emails_per_day?: number | null
+          max_emails_per_hour?: number | null
+          max_failures_per_day?: number | null
+          plan?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_email_limits_plan_fkey"
+            columns: ["plan"]
+            isOneToOne: false
+            referencedRelation: "email_plans"
+            referencedColumns: ["plan"]
+          },
+        ]
+      }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -58,7 +733,268 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: string
+      }
+      claim_email_outbox: {
+        Args: {
+          batch_size?: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          email_log_id: string | null
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          request: Json
+          status: string
+          subject: string
+          template: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      create_workspace: {
+        Args: {
+          workspace_name: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+      }
+      enqueue_task_email: {
+        Args: {
+          data: Json
+          recipient_id: string
+          sender_id: string
+          subject: string
+          template_name: string
+        }
+        Returns: undefined
+      }
+      get_daily_digest_tasks: {
+        Args: {
+          digest_date: string
+          target_user_id: string
+        }
+        Returns: {
+          due_at: string
+          due_date: string
+          name: string
+          priority: string
+          priority_reasoning: string
+        }[]
+      }
+      get_due_daily_digests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          digest_date: string
+          email: string
+          time_zone: string
+          user_id: string
+        }[]
+      }
+      get_due_task_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          description: string
+          due_at: string
+          due_date: string
+          due_for: string
+          email: string
+          name: string
+          task_id: string
+          time_zone: string
+          user_id: string
+        }[]
+      }
+      get_email_recipient_settings: {
+        Args: {
+          recipient_email: string
+          template_name: string
+        }
+        Returns: {
+          enabled: boolean
+          locale: string
+          quiet_hours_end: number
+          quiet_hours_start: number
+          time_zone: string
+          user_id: string
+        }[]
+      }
+      get_email_rate_limit_status: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: {
+          failed_today: number
+          max_emails_per_day: number
+          max_emails_per_hour: number
+          max_failures_per_day: number
+          plan: string
+          sent_this_hour: number
+          sent_today: number
+        }[]
+      }
+      get_inbound_email_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_task_collaborators: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          id: string
+        }[]
+      }
+      get_task_participants: {
+        Args: {
+          target_task_id: string
+        }
+        Returns: {
+          email: string
+          id: string
+        }[]
+      }
+      get_user_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag: string
+          usage_count: number
+        }[]
+      }
+      get_workspace_invitation: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: {
+          accepted_at: string
+          email: string
+          expires_at: string
+          invited_by_email: string
+          role: string
+          workspace_id: string
+          workspace_name: string
+        }[]
+      }
+      get_workspace_members: {
+        Args: {
+          target_workspace_id: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      has_workspace_role: {
+        Args: {
+          min_role?: string
+          target_workspace_id: string
+        }
+        Returns: boolean
+      }
+      notification_enabled: {
+        Args: {
+          target_user_id: string
+          template_name: string
+        }
+        Returns: boolean
+      }
+      regenerate_inbound_email_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      reschedule_overdue_tasks: {
+        Args: {
+          before_date: string
+          target_date: string
+          target_workspace_id?: string
+          time_zone: string
+        }
+        Returns: number
+      }
+      restore_task: {
+        Args: { target_task_id: string }
+        Returns: undefined
+      }
+      retry_email: {
+        Args: {
+          email_id: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          email_log_id: string | null
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          request: Json
+          status: string
+          subject: string
+          template: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      search_tasks: {
+        Args: {
+          due_from?: string
+          due_to?: string
+          include_completed?: boolean
+          priority_filter?: string[]
+          result_limit?: number
+          search_query: string
+          target_workspace_id?: string
+        }
+        Returns: {
+          completed: boolean
+          description: string
+          description_highlight: string
+          due_date: string
+          id: string
+          name: string
+          name_highlight: string
+          priority: string
+          project_id: string
+          rank: number
+          reasoning_highlight: string
+        }[]
+      }
+      set_ai_priority: {
+        Args: {
+          force?: boolean
+          new_priority: string
+          reasoning: string
+          target_task_id: string
+        }
+        Returns: boolean
+      }
+      task_participant_ids: {
+        Args: {
+          target_task_id: string
+        }
+        Returns: string[]
+      }
+      task_search_vector: {
+        Args: { description: string; name: string; priority_reasoning: string }
+        Returns: unknown
+      }
     }
     Enums: {
       [_ in never]: never
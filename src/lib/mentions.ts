@@ -0,0 +1,63 @@
+export interface Mentionable {
+  id: string;
+  email: string;
+}
+
+export type CommentSegment = { text: string; mention?: Mentionable };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Matches `@email` for any of `people`, longest address first so one address that ends
+ * another is not cut short
+ */
+function mentionPattern(people: Mentionable[]): RegExp | null {
+  if (people.length === 0) return null;
+
+  const emails = people
+    .map((person) => escapeRegExp(person.email))
+    .sort((a, b) => b.length - a.length);
+  return new RegExp(`@(${emails.join("|")})(?![\\w-]|\\.\\w)`, "gi");
+}
+
+/**
+ * Ids of the people mentioned as `@email` in a comment, each once
+ */
+export function extractMentions(body: string, people: Mentionable[]): string[] {
+  const pattern = mentionPattern(people);
+  if (!pattern) return [];
+
+  const ids = Array.from(body.matchAll(pattern), (match) =>
+    people.find((person) => person.email.toLowerCase() === match[1].toLowerCase())?.id
+  );
+  return Array.from(new Set(ids.filter(Boolean)));
+}
+
+/**
+ * A comment split into plain text and mentions, for rendering mentions highlighted
+ */
+export function splitMentions(body: string, people: Mentionable[]): CommentSegment[] {
+  const pattern = mentionPattern(people);
+  if (!pattern) return [{ text: body }];
+
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of body.matchAll(pattern)) {
+    if (match.index > last) segments.push({ text: body.slice(last, match.index) });
+    segments.push({
+      text: match[0],
+      mention: people.find((person) => person.email.toLowerCase() === match[1].toLowerCase()),
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < body.length) segments.push({ text: body.slice(last) });
+  return segments;
+}
+
+/**
+ * The partial `@name` being typed right before the cursor, if any
+ */
+export function getMentionQuery(body: string, cursor: number): string | null {
+  const match = body.slice(0, cursor).match(/(?:^|\s)@([^\s@]*(?:@[^\s@]*)?)$/);
+  return match ? match[1] : null;
+}
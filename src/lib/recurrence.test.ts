@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceRecurrenceRule,
+  getNextOccurrence,
+  occursOn,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+} from "./recurrence";
+
+// Local dates, since the rules work on calendar days in the user's time zone.
+// January 6, 2025 is a Monday.
+const day = (month: number, date: number, year = 2025) => new Date(year, month - 1, date);
+
+describe("parseRecurrenceRule", () => {
+  it("parses every supported part", () => {
+    expect(parseRecurrenceRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20251231;COUNT=4")).toEqual({
+      frequency: "WEEKLY",
+      interval: 2,
+      byDay: ["MO", "FR"],
+      until: day(12, 31),
+      count: 4,
+    });
+  });
+
+  it("returns null for empty or unsupported rules", () => {
+    expect(parseRecurrenceRule(null)).toBeNull();
+    expect(parseRecurrenceRule("")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=YEARLY")).toBeNull();
+  });
+
+  it("round-trips through serializeRecurrenceRule", () => {
+    const value = "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15;COUNT=6";
+    expect(serializeRecurrenceRule(parseRecurrenceRule(value)!)).toBe(value);
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("adds the interval to daily rules", () => {
+    expect(getNextOccurrence({ frequency: "DAILY", interval: 3 }, day(1, 6))).toEqual(day(1, 9));
+  });
+
+  it("moves to the next listed weekday in the same week", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,WE")!;
+    expect(getNextOccurrence(rule, day(1, 6))).toEqual(day(1, 8));
+    expect(getNextOccurrence(rule, day(1, 8))).toEqual(day(1, 13));
+  });
+
+  it("skips weeks outside the interval", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO")!;
+    expect(getNextOccurrence(rule, day(1, 6))).toEqual(day(1, 20));
+  });
+
+  it("keeps the weekday of weekly rules without BYDAY", () => {
+    expect(getNextOccurrence({ frequency: "WEEKLY", interval: 1 }, day(1, 8))).toEqual(day(1, 15));
+  });
+
+  it("clamps monthly rules to the end of shorter months", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=31")!;
+    expect(getNextOccurrence(rule, day(1, 31))).toEqual(day(2, 28));
+    expect(getNextOccurrence(rule, day(2, 28))).toEqual(day(3, 31));
+  });
+
+  it("ignores the time of day", () => {
+    const from = new Date(2025, 0, 6, 23, 30);
+    expect(getNextOccurrence({ frequency: "DAILY", interval: 1 }, from)).toEqual(day(1, 7));
+  });
+
+  it("returns null after UNTIL, which is inclusive", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;UNTIL=20250108")!;
+    expect(getNextOccurrence(rule, day(1, 7))).toEqual(day(1, 8));
+    expect(getNextOccurrence(rule, day(1, 8))).toBeNull();
+  });
+});
+
+describe("advanceRecurrenceRule", () => {
+  it("counts down COUNT and ends the series on the last occurrence", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;COUNT=2")!;
+    expect(advanceRecurrenceRule(rule)).toEqual({ ...rule, count: 1 });
+    expect(advanceRecurrenceRule({ ...rule, count: 1 })).toBeNull();
+  });
+
+  it("leaves rules without COUNT unchanged", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY")!;
+    expect(advanceRecurrenceRule(rule)).toBe(rule);
+  });
+});
+
+describe("occursOn", () => {
+  it("matches the anchor and later occurrences", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,WE")!;
+    expect(occursOn(rule, day(1, 6), day(1, 6))).toBe(true);
+    expect(occursOn(rule, day(1, 6), day(1, 22))).toBe(true);
+    expect(occursOn(rule, day(1, 6), day(1, 23))).toBe(false);
+  });
+
+  it("never matches before the anchor", () => {
+    expect(occursOn({ frequency: "DAILY", interval: 1 }, day(1, 6), day(1, 5))).toBe(false);
+  });
+
+  it("stops after COUNT occurrences, including the anchor", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;COUNT=3")!;
+    expect(occursOn(rule, day(1, 6), day(1, 8))).toBe(true);
+    expect(occursOn(rule, day(1, 6), day(1, 9))).toBe(false);
+  });
+
+  it("stops after UNTIL", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;UNTIL=20250113")!;
+    expect(occursOn(rule, day(1, 6), day(1, 13))).toBe(true);
+    expect(occursOn(rule, day(1, 6), day(1, 20))).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isSameDay,
+  parse,
+  setDate,
+  startOfDay,
+} from "date-fns";
+
+/**
+ * Recurrence rules are stored on tasks as a subset of the iCalendar RRULE syntax,
+ * e.g. "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20251231" or "FREQ=MONTHLY;BYMONTHDAY=15;COUNT=6".
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  /** Last allowed occurrence, inclusive */
+  until?: Date;
+  /** Remaining occurrences, including the current one */
+  count?: number;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+};
+
+// Guards projection loops against malformed rules
+const MAX_ITERATIONS = 1000;
+
+/**
+ * Parse an RRULE string, returning null when it is empty or unsupported
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const parts = Object.fromEntries(
+    value
+      .replace(/^RRULE:/, "")
+      .split(";")
+      .map((part) => part.split("=") as [string, string])
+  );
+
+  const frequency = parts.FREQ as RecurrenceFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(frequency)) return null;
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? "1", 10) || 1),
+  };
+
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(",").filter((day): day is Weekday =>
+      WEEKDAYS.includes(day as Weekday)
+    );
+  }
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parseInt(parts.BYMONTHDAY, 10);
+  }
+  if (parts.UNTIL) {
+    rule.until = parse(parts.UNTIL.slice(0, 8), "yyyyMMdd", new Date());
+  }
+  if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT, 10);
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back into its RRULE string form
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, "yyyyMMdd")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(";");
+}
+
+/**
+ * Get the first occurrence strictly after `from`, or null once the rule has ended.
+ * COUNT is not consumed here; callers decrement it when they materialize an occurrence.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, from: Date): Date | null {
+  const start = startOfDay(from);
+  let next: Date | null = null;
+
+  switch (rule.frequency) {
+    case "DAILY":
+      next = addDays(start, rule.interval);
+      break;
+    case "WEEKLY":
+      if (rule.byDay?.length) {
+        for (let offset = 1; offset <= 7 * rule.interval; offset++) {
+          const candidate = addDays(start, offset);
+          const weeksApart = differenceInCalendarWeeks(candidate, start);
+          if (
+            weeksApart % rule.interval === 0 &&
+            rule.byDay.includes(WEEKDAYS[candidate.getDay()])
+          ) {
+            next = candidate;
+            break;
+          }
+        }
+      } else {
+        next = addWeeks(start, rule.interval);
+      }
+      break;
+    case "MONTHLY": {
+      const month = addMonths(setDate(start, 1), rule.interval);
+      const day = rule.byMonthDay ?? start.getDate();
+      next = setDate(month, Math.min(day, getDaysInMonth(month)));
+      break;
+    }
+  }
+
+  if (!next || (rule.until && isAfter(next, startOfDay(rule.until)))) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Derive the rule for the occurrence after this one, or null if the series is finished
+ */
+export function advanceRecurrenceRule(rule: RecurrenceRule): RecurrenceRule | null {
+  if (rule.count === undefined) return rule;
+  if (rule.count <= 1) return null;
+  return { ...rule, count: rule.count - 1 };
+}
+
+/**
+ * Check whether a series anchored at `anchor` produces an occurrence on `date`
+ */
+export function occursOn(rule: RecurrenceRule, anchor: Date, date: Date): boolean {
+  const target = startOfDay(date);
+  let current: Date | null = startOfDay(anchor);
+  let remaining = rule.count ?? Infinity;
+
+  for (let i = 0; current && remaining > 0 && i < MAX_ITERATIONS; i++) {
+    if (isSameDay(current, target)) return true;
+    if (isAfter(current, target)) return false;
+    current = getNextOccurrence(rule, current);
+    remaining--;
+  }
+
+  return false;
+}
+
+/**
+ * Human readable summary, e.g. "Every week on Mon, Wed until Dec 31, 2025"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, string> = {
+    DAILY: "day",
+    WEEKLY: "week",
+    MONTHLY: "month",
+  };
+  const unit = units[rule.frequency];
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === "WEEKLY" && rule.byDay?.length) {
+    description += ` on ${rule.byDay.map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+  }
+  if (rule.frequency === "MONTHLY" && rule.byMonthDay) {
+    description += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) {
+    description += ` until ${format(rule.until, "MMM d, yyyy")}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} left`;
+  }
+
+  return description;
+}
+
+export function getWeekdayLabel(day: Weekday): string {
+  return WEEKDAY_LABELS[day];
+}
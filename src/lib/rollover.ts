@@ -0,0 +1,24 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getTodayInTimeZone } from "./timezone";
+
+/**
+ * Move every open task due before today in `timeZone` onto `targetDate` ('yyyy-MM-dd'):
+ * the workspace's tasks, or your personal ones when `workspaceId` is null.
+ * Due times keep their wall-clock time. Returns how many tasks moved.
+ */
+export async function moveOverdueTasks(
+  targetDate: string,
+  timeZone: string,
+  workspaceId: string | null
+): Promise<number> {
+  const { data, error } = await supabase.rpc("reschedule_overdue_tasks", {
+    before_date: getTodayInTimeZone(timeZone),
+    target_date: targetDate,
+    time_zone: timeZone,
+    target_workspace_id: workspaceId ?? undefined,
+  });
+
+  if (error) throw error;
+
+  return data ?? 0;
+}
@@ -0,0 +1,10 @@
+/**
+ * Normalize a user-entered tag: trimmed, lowercase, no leading '#', inner whitespace as dashes
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+}
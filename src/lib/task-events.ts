@@ -0,0 +1,95 @@
+import { format, parseISO } from "date-fns";
+import { describeRecurrenceRule, parseRecurrenceRule } from "./recurrence";
+import { getTimeInTimeZone } from "./timezone";
+
+/**
+ * task_events.changes: the fields a change touched, e.g. { "priority": { "old": "low", "new": "high" } }
+ */
+export type TaskEventChanges = Record<string, { old: unknown; new: unknown }>;
+
+export interface TaskEventLookups {
+  timeZone: string;
+  getPersonEmail?: (id: string) => string | undefined;
+  getProjectName?: (id: string) => string | undefined;
+}
+
+const formatDate = (value: string) => format(parseISO(value), "MMM d");
+
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+
+/**
+ * What happened in one field change, phrased to follow the actor, e.g. "changed priority
+ * from low to high". Null for bookkeeping fields the timeline does not show.
+ */
+function describeChange(
+  field: string,
+  { old: before, new: after }: { old: unknown; new: unknown },
+  changes: TaskEventChanges,
+  { timeZone, getPersonEmail, getProjectName }: TaskEventLookups
+): string | null {
+  switch (field) {
+    case "completed":
+      return after ? "completed the task" : "reopened the task";
+    case "name":
+      return `renamed the task from "${before}" to "${after}"`;
+    case "description":
+      if (!after) return "removed the description";
+      return before ? "edited the description" : "added a description";
+    case "priority":
+      if (!after) return "cleared the priority";
+      return before ? `changed priority from ${before} to ${after}` : `set priority to ${after}`;
+    case "priority_source":
+      // Picking a priority by hand already reads as a priority change
+      if (changes.priority) return null;
+      return after === "ai" ? "handed the priority back to AI" : "took over the priority from AI";
+    case "due_date":
+      if (!after) return "removed the due date";
+      return before
+        ? `moved the due date from ${formatDate(before as string)} to ${formatDate(after as string)}`
+        : `set the due date to ${formatDate(after as string)}`;
+    case "due_at":
+      // Moving the date carries the time along with it
+      if (changes.due_date && after) return null;
+      return after ? `set the due time to ${getTimeInTimeZone(after as string, timeZone)}` : "removed the due time";
+    case "recurrence_rule": {
+      const rule = parseRecurrenceRule(after as string | null);
+      return rule ? `made it repeat ${lowerFirst(describeRecurrenceRule(rule))}` : "stopped repeating the task";
+    }
+    case "project_id":
+      if (!after) return "removed it from its project";
+      return `moved it to ${getProjectName?.(after as string) ?? "another project"}`;
+    case "tags": {
+      const oldTags = (before as string[] | null) ?? [];
+      const newTags = (after as string[] | null) ?? [];
+      const added = newTags.filter((tag) => !oldTags.includes(tag));
+      const removed = oldTags.filter((tag) => !newTags.includes(tag));
+      const parts = [
+        added.length ? `added ${added.map((tag) => `#${tag}`).join(", ")}` : null,
+        removed.length ? `removed ${removed.map((tag) => `#${tag}`).join(", ")}` : null,
+      ].filter(Boolean);
+      return parts.length ? parts.join(" and ") : null;
+    }
+    case "assignee_id":
+      if (!after) return "unassigned the task";
+      return `assigned it to ${getPersonEmail?.(after as string) ?? "someone"}`;
+    case "workspace_id":
+      return after ? "moved it to a workspace" : "made it a personal task";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Timeline lines for one task event
+ */
+export function describeTaskEvent(
+  eventType: string,
+  changes: TaskEventChanges,
+  lookups: TaskEventLookups
+): string[] {
+  if (eventType === "created") return ["created the task"];
+
+  return Object.entries(changes)
+    .map(([field, change]) => describeChange(field, change, changes, lookups))
+    .filter(Boolean);
+}
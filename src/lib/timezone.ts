@@ -0,0 +1,122 @@
+/**
+ * Time zone helpers built on Intl. Calendar days are passed around as 'yyyy-MM-dd'
+ * strings and wall-clock times as 'HH:mm', both interpreted in an IANA time zone.
+ */
+
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Madrid",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// Milliseconds to add to UTC to get wall-clock time in `timeZone` at `instant`
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf?.("timeZone") ?? FALLBACK_TIME_ZONES;
+}
+
+/**
+ * Calendar day ('yyyy-MM-dd') of `instant` as seen in `timeZone`
+ */
+export function getDateInTimeZone(instant: Date | string, timeZone: string): string {
+  const { year, month, day } = getZonedParts(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Wall-clock time ('HH:mm') of `instant` as seen in `timeZone`
+ */
+export function getTimeInTimeZone(instant: Date | string, timeZone: string): string {
+  const { hour, minute } = getZonedParts(new Date(instant), timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+export function getTodayInTimeZone(timeZone: string): string {
+  return getDateInTimeZone(new Date(), timeZone);
+}
+
+/**
+ * The instant at which the clocks in `timeZone` read `date` `time`.
+ * Times skipped by a DST jump resolve to the equivalent time after the jump.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // The offset can differ on the other side of a DST change, so check it once more
+  const correctedOffset = getTimeZoneOffset(new Date(instant), timeZone);
+  instant = wallClock - correctedOffset;
+
+  return new Date(instant);
+}
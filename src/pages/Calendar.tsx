@@ -1,14 +1,28 @@
 import { useState } from "react";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Button } from "@/components/ui/button";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { Home } from "lucide-react";
 import { TaskList } from "@/components/tasks/TaskList";
-import { format } from "date-fns";
+import { format, isValid, parseISO } from "date-fns";
+import { useProfile } from "@/hooks/use-profile";
+import { hasWorkspaceRole, useWorkspaces } from "@/hooks/use-workspaces";
+import { getTodayInTimeZone } from "@/lib/timezone";
 
 const Calendar = () => {
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
-  const [refreshKey, setRefreshKey] = useState(0);
+  const [searchParams] = useSearchParams();
+  const { timeZone } = useProfile();
+  const { currentWorkspace, loading: workspacesLoading } = useWorkspaces();
+  const today = parseISO(getTodayInTimeZone(timeZone));
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(() => {
+    const dateParam = searchParams.get("date");
+    const parsed = dateParam ? parseISO(dateParam) : null;
+    return parsed && isValid(parsed) ? parsed : today;
+  });
+
+  // Same workspace and permissions as the task lists on the home page
+  const workspaceId = currentWorkspace?.id ?? null;
+  const canEditTasks = !currentWorkspace || hasWorkspaceRole(currentWorkspace.role, "member");
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
@@ -34,6 +48,8 @@ const Calendar = () => {
               mode="single"
               selected={selectedDate}
               onSelect={setSelectedDate}
+              defaultMonth={selectedDate}
+              today={today}
               className="rounded-md border pointer-events-auto"
             />
           </div>
@@ -42,7 +58,14 @@ const Calendar = () => {
             <h2 className="text-xl font-semibold mb-4">
               {selectedDate ? `Tasks for ${format(selectedDate, "MMMM d, yyyy")}` : "Select a date"}
             </h2>
-            {selectedDate && <TaskList refresh={refreshKey} date={selectedDate} />}
+            {selectedDate && !workspacesLoading && (
+              <TaskList
+                date={selectedDate}
+                workspaceId={workspaceId}
+                readOnly={!canEditTasks}
+                timeZone={timeZone}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, RotateCcw, Send } from "lucide-react";
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { EmailNotificationClient } from "@/api/notifications";
+import type { EmailLocale, EmailPreview, EmailTemplate } from "@/api/notifications";
+import { TEMPLATE_SAMPLES } from "@/api/notifications/samples";
+import { getLocaleLabel, getTemplateLabel } from "@/api/notifications/utils";
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const ALL_TEMPLATES = [...EmailNotificationClient.TEMPLATES, ...EmailNotificationClient.TRANSACTIONAL_TEMPLATES];
+
+const toJson = (data: Record<string, unknown>) => JSON.stringify(data, null, 2);
+
+/**
+ * Renders each email template with editable sample data in any supported language, and
+ * sends test emails to yourself
+ */
+const EmailTemplates = () => {
+  const [template, setTemplate] = useState<EmailTemplate>(ALL_TEMPLATES[0]);
+  const [locale, setLocale] = useState<EmailLocale>("en");
+  // Empty uses the template's own subject, as shown in the preview
+  const [subject, setSubject] = useState("");
+  const [dataText, setDataText] = useState(toJson(TEMPLATE_SAMPLES[template].data));
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserEmail(user?.email ?? null));
+  }, []);
+
+  useEffect(() => {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(dataText);
+    } catch (error) {
+      setPreviewError(`Invalid JSON: ${(error as Error).message}`);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const rendered = await EmailNotificationClient.preview(template, data, locale);
+        if (cancelled) return;
+        setPreview(rendered);
+        setPreviewError(null);
+      } catch (error) {
+        if (cancelled) return;
+        setPreviewError((error as Error).message);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [template, dataText, locale]);
+
+  const selectTemplate = (next: EmailTemplate) => {
+    setTemplate(next);
+    setSubject("");
+    setDataText(toJson(TEMPLATE_SAMPLES[next].data));
+    setPreview(null);
+  };
+
+  const handleTestSend = async () => {
+    if (!userEmail) return;
+
+    setSending(true);
+    try {
+      const response = await EmailNotificationClient.send({
+        to: userEmail,
+        subject: `[Test] ${subject || preview?.subject || getTemplateLabel(template)}`,
+        template,
+        data: JSON.parse(dataText),
+        locale,
+      });
+      toast({
+        title: response.success ? "Test email sent" : "Test email not sent",
+        description: response.success ? `Sent to ${userEmail}` : response.message,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar />
+      <SidebarInset>
+        <div className="min-h-screen bg-background pb-24">
+          <header className="border-b border-border/50 bg-card">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <Link to="/notifications">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Back to notifications">
+                    <ArrowLeft className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <h1 className="text-xl sm:text-2xl font-semibold text-foreground">Email templates</h1>
+              </div>
+            </div>
+          </header>
+
+          <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+            <div className="grid gap-6 lg:grid-cols-[220px_1fr]">
+              <nav className="flex flex-row flex-wrap gap-1 lg:flex-col">
+                {ALL_TEMPLATES.map((name) => (
+                  <Button
+                    key={name}
+                    variant={name === template ? "secondary" : "ghost"}
+                    className="justify-start"
+                    onClick={() => selectTemplate(name)}
+                  >
+                    {getTemplateLabel(name)}
+                  </Button>
+                ))}
+              </nav>
+
+              <div className="space-y-6 min-w-0">
+                <Card className="shadow-sm border-border/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Sample data</CardTitle>
+                    <CardDescription>
+                      Edit the JSON passed to the <code>{template}</code> template. The preview updates as you type.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 sm:grid-cols-[1fr_180px]">
+                      <div className="space-y-2">
+                        <Label htmlFor="template-subject">Subject</Label>
+                        <Input
+                          id="template-subject"
+                          value={subject}
+                          placeholder={preview?.subject}
+                          onChange={(e) => setSubject(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="template-locale">Language</Label>
+                        <Select value={locale} onValueChange={(value) => setLocale(value as EmailLocale)}>
+                          <SelectTrigger id="template-locale">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EmailNotificationClient.LOCALES.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {getLocaleLabel(option)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="template-data">Data</Label>
+                      <Textarea
+                        id="template-data"
+                        value={dataText}
+                        onChange={(e) => setDataText(e.target.value)}
+                        rows={14}
+                        spellCheck={false}
+                        className="font-mono text-xs"
+                      />
+                      {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        onClick={handleTestSend}
+                        disabled={!userEmail || sending || !!previewError}
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        {userEmail ? `Send test to ${userEmail}` : "Sign in to send a test"}
+                      </Button>
+                      <Button variant="outline" onClick={() => selectTemplate(template)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset sample
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <Card className="shadow-sm border-border/50 min-w-0">
+                    <CardHeader>
+                      <CardTitle className="text-lg">HTML</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {/* Sandboxed so template markup cannot run scripts in the app */}
+                      <iframe
+                        title="HTML preview"
+                        sandbox=""
+                        srcDoc={preview?.html ?? ""}
+                        className="h-[600px] w-full rounded-md border border-border/50 bg-white"
+                      />
+                    </CardContent>
+                  </Card>
+                  <Card className="shadow-sm border-border/50 min-w-0">
+                    <CardHeader>
+                      <CardTitle className="text-lg">Text</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <pre className="h-[600px] overflow-auto whitespace-pre-wrap rounded-md border border-border/50 bg-muted/30 p-4 text-xs">
+                        {preview?.text ?? ""}
+                      </pre>
+                    </CardContent>
+                  </Card>
+                </div>
+              </div>
+            </div>
+          </main>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default EmailTemplates;
@@ -1,19 +1,47 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { AuthForm } from "@/components/auth/AuthForm";
 import { TaskForm } from "@/components/tasks/TaskForm";
 import { TaskList } from "@/components/tasks/TaskList";
 import { Button } from "@/components/ui/button";
-import { LogOut, Calendar as CalendarIcon } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LogOut, Calendar as CalendarIcon, CalendarArrowUp, ChevronDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
+import { useTaskMutations } from "@/hooks/use-tasks";
+import { hasWorkspaceRole, useWorkspaces } from "@/hooks/use-workspaces";
+import { moveOverdueTasks } from "@/lib/rollover";
+import { getBrowserTimeZone, getTodayInTimeZone } from "@/lib/timezone";
 import { VoiceAssistant } from "@/components/tasks/VoiceAssistant";
+import { TaskSearch } from "@/components/tasks/TaskSearch";
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { WorkspaceSwitcher } from "@/components/workspaces/WorkspaceSwitcher";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { Link } from "react-router-dom";
-import { format } from "date-fns";
+import { addDays, format, parseISO } from "date-fns";
 
 const Index = () => {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
-  const [refreshTasks, setRefreshTasks] = useState(0);
+  const [overdueCount, setOverdueCount] = useState(0);
+  const [movingOverdue, setMovingOverdue] = useState(false);
+  // Lists already rolled over this visit: "personal" or a workspace id
+  const rolledOver = useRef(new Set<string>());
+  const { profile, timeZone, refresh: refreshProfile, updateProfile } = useProfile();
+  const {
+    workspaces,
+    currentWorkspace,
+    loading: workspacesLoading,
+    refresh: refreshWorkspaces,
+    setCurrentWorkspaceId,
+    createWorkspace,
+  } = useWorkspaces();
+  const { invalidateTasks } = useTaskMutations();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -33,16 +61,75 @@ const Index = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (userId) {
+      refreshProfile();
+      refreshWorkspaces();
+    }
+  }, [userId, refreshProfile, refreshWorkspaces]);
+
+  const workspaceId = currentWorkspace?.id ?? null;
+  // Viewers see the workspace's tasks but cannot add or change any
+  const canEditTasks = !currentWorkspace || hasWorkspaceRole(currentWorkspace.role, "member");
+
+  // Remember the browser's zone the first time so scheduled emails can use it
+  useEffect(() => {
+    if (profile && !profile.time_zone) {
+      updateProfile({ time_zone: getBrowserTimeZone() }).catch((error: Error) => {
+        console.error("Error saving time zone:", error);
+      });
+    }
+  }, [profile, updateProfile]);
+
+  const today = getTodayInTimeZone(timeZone);
+
+  useEffect(() => {
+    const listKey = workspaceId ?? "personal";
+    if (!user || !profile?.auto_rollover || !canEditTasks || rolledOver.current.has(listKey)) return;
+    rolledOver.current.add(listKey);
+
+    moveOverdueTasks(getTodayInTimeZone(timeZone), timeZone, workspaceId)
+      .then((moved) => {
+        if (moved > 0) {
+          toast({ title: `Rolled ${moved} overdue ${moved === 1 ? "task" : "tasks"} over to today` });
+          invalidateTasks();
+        }
+      })
+      .catch((error: Error) => {
+        console.error("Error rolling over tasks:", error);
+      });
+  }, [user, profile, timeZone, workspaceId, canEditTasks, toast, invalidateTasks]);
+
+  const handleMoveOverdue = async (targetDate: string, label: string) => {
+    setMovingOverdue(true);
+    try {
+      const moved = await moveOverdueTasks(targetDate, timeZone, workspaceId);
+      toast({ title: `Moved ${moved} ${moved === 1 ? "task" : "tasks"} to ${label}` });
+      invalidateTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setMovingOverdue(false);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     toast({ title: "Signed out successfully" });
   };
 
-  const handleTaskAdded = () => {
-    setRefreshTasks((prev) => prev + 1);
+  const handleLeaveWorkspace = () => {
+    setCurrentWorkspaceId(null);
+    refreshWorkspaces();
   };
 
-  if (loading) {
+  if (loading || (user && workspacesLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="animate-pulse text-muted-foreground">Loading...</div>
@@ -55,43 +142,104 @@ const Index = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background pb-24">
-      <header className="border-b border-border/50 bg-card">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-xl sm:text-2xl font-semibold text-foreground">TaskPrioritizer</h1>
-              <p className="text-sm text-muted-foreground mt-1">
-                {format(new Date(), "EEEE, MMMM d")}
-              </p>
+    <SidebarProvider>
+      <ProjectSidebar />
+      <SidebarInset>
+        <div className="min-h-screen bg-background pb-24">
+          <header className="border-b border-border/50 bg-card">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <SidebarTrigger />
+                  <div>
+                    <h1 className="text-xl sm:text-2xl font-semibold text-foreground">TaskPrioritizer</h1>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {format(parseISO(today), "EEEE, MMMM d")}
+                    </p>
+                  </div>
+                  <WorkspaceSwitcher
+                    workspaces={workspaces}
+                    currentWorkspace={currentWorkspace}
+                    onSelect={setCurrentWorkspaceId}
+                    onCreate={createWorkspace}
+                    onLeave={handleLeaveWorkspace}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <TaskSearch workspaceId={workspaceId} />
+                  <Link to="/calendar">
+                    <Button variant="ghost" size="sm">
+                      <CalendarIcon className="w-4 h-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Calendar</span>
+                    </Button>
+                  </Link>
+                  <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                    <LogOut className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Sign Out</span>
+                  </Button>
+                </div>
+              </div>
             </div>
-            <div className="flex gap-2">
-              <Link to="/calendar">
-                <Button variant="ghost" size="sm">
-                  <CalendarIcon className="w-4 h-4 sm:mr-2" />
-                  <span className="hidden sm:inline">Calendar</span>
-                </Button>
-              </Link>
-              <Button variant="ghost" size="sm" onClick={handleSignOut}>
-                <LogOut className="w-4 h-4 sm:mr-2" />
-                <span className="hidden sm:inline">Sign Out</span>
-              </Button>
+          </header>
+
+          <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8 max-w-6xl">
+            {canEditTasks && (
+              <TaskForm
+                key={workspaceId ?? "personal"}
+                workspaceId={workspaceId}
+                timeZone={timeZone}
+              />
+            )}
+
+            <div className={overdueCount === 0 ? "hidden" : undefined}>
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h2 className="text-lg sm:text-xl font-semibold text-destructive">
+                  Overdue <span className="text-sm font-normal text-muted-foreground">({overdueCount})</span>
+                </h2>
+                {canEditTasks && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className="gap-2" disabled={movingOverdue}>
+                        <CalendarArrowUp className="w-4 h-4" />
+                        Reschedule all
+                        <ChevronDown className="w-3 h-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => handleMoveOverdue(today, "today")}>
+                        Move to today
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleMoveOverdue(format(addDays(parseISO(today), 1), "yyyy-MM-dd"), "tomorrow")}>
+                        Move to tomorrow
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+              <TaskList
+                overdue
+                onTasksLoaded={setOverdueCount}
+                workspaceId={workspaceId}
+                readOnly={!canEditTasks}
+                timeZone={timeZone}
+              />
             </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8 max-w-6xl">
-        <TaskForm onTaskAdded={handleTaskAdded} />
-        
-        <div>
-          <h2 className="text-lg sm:text-xl font-semibold mb-4 text-foreground">Today's Tasks</h2>
-          <TaskList refresh={refreshTasks} todayOnly />
-        </div>
-      </main>
 
-      <VoiceAssistant onTaskCreated={handleTaskAdded} />
-    </div>
+            <div>
+              <h2 className="text-lg sm:text-xl font-semibold mb-4 text-foreground">Today's Tasks</h2>
+              <TaskList
+                todayOnly
+                workspaceId={workspaceId}
+                readOnly={!canEditTasks}
+                timeZone={timeZone}
+              />
+            </div>
+          </main>
+
+          {canEditTasks && <VoiceAssistant onTaskCreated={invalidateTasks} workspaceId={workspaceId} />}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthForm } from "@/components/auth/AuthForm";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import type { Database } from "@/integrations/supabase/types";
+import { format, parseISO } from "date-fns";
+
+type Invitation = Database["public"]["Functions"]["get_workspace_invitation"]["Returns"][number];
+
+/**
+ * Landing page for the accept link in workspace-invite emails. The invitee signs in (or
+ * signs up) with the invited address, then joins the workspace and lands in it.
+ */
+const Invite = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+  const { setCurrentWorkspaceId } = useWorkspaces();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setCheckingSession(false);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    if (!token) {
+      setLoadError("This invitation link is incomplete.");
+      return;
+    }
+
+    supabase.rpc("get_workspace_invitation", { invitation_token: token }).then(({ data, error }) => {
+      if (error) {
+        setLoadError(error.message);
+      } else if (!data?.[0]) {
+        setLoadError("This invitation does not exist or was revoked.");
+      } else {
+        setInvitation(data[0]);
+        setLoadError(null);
+      }
+    });
+  }, [userId, token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      const { data: workspaceId, error } = await supabase.rpc("accept_workspace_invitation", {
+        invitation_token: token,
+      });
+
+      if (error) throw error;
+
+      setCurrentWorkspaceId(workspaceId);
+      toast({ title: `You joined ${invitation.workspace_name}` });
+      navigate("/");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (checkingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthForm />;
+  }
+
+  const isExpired = invitation ? parseISO(invitation.expires_at) < new Date() : false;
+  const isForSomeoneElse = invitation ? invitation.email.toLowerCase() !== user.email?.toLowerCase() : false;
+  const problem = loadError
+    ?? (invitation?.accepted_at ? "This invitation has already been accepted." : null)
+    ?? (isExpired ? "This invitation has expired. Ask for a new one." : null)
+    ?? (isForSomeoneElse
+      ? `This invitation was sent to ${invitation.email}, but you are signed in as ${user.email}.`
+      : null);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md shadow-md border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl">
+            {invitation ? `Join ${invitation.workspace_name}` : loadError ? "Invitation unavailable" : "Loading invitation..."}
+          </CardTitle>
+          {problem ? (
+            <CardDescription>{problem}</CardDescription>
+          ) : (
+            invitation && (
+              <CardDescription>
+                {invitation.invited_by_email ?? "Someone"} invited you to join as {invitation.role}. This invitation
+                expires on {format(parseISO(invitation.expires_at), "MMMM d")}.
+              </CardDescription>
+            )
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          {invitation && !problem && (
+            <Button onClick={handleAccept} disabled={accepting}>
+              {accepting ? "Joining..." : "Accept invitation"}
+            </Button>
+          )}
+          {isForSomeoneElse && (
+            <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+              Sign in with another account
+            </Button>
+          )}
+          <Link to="/">
+            <Button variant="ghost">Go to my tasks</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { startOfDay, subDays } from "date-fns";
+import { FileText, RefreshCw, Search } from "lucide-react";
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { EmailLogTable } from "@/components/notifications/EmailLogTable";
+import { EmailOutboxList } from "@/components/notifications/EmailOutboxList";
+import { EmailSendsChart } from "@/components/notifications/EmailSendsChart";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { EmailNotificationClient } from "@/api/notifications";
+import type { EmailLog, OutboxEmail, RateLimitStatus } from "@/api/notifications";
+import {
+  calculateRemainingEmails,
+  calculateSuccessRate,
+  countLogsByDay,
+  filterLogsByDateRange,
+  getRateLimitMessage,
+  getTemplateLabel,
+  groupLogsByStatus,
+} from "@/api/notifications/utils";
+
+const DATE_RANGES = [
+  { days: 7, label: "Last 7 days" },
+  { days: 14, label: "Last 14 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+// Enough to cover the longest range at the highest daily send and failure limits
+const MAX_LOGS = 90 * (500 + 100);
+
+const Notifications = () => {
+  const [logs, setLogs] = useState<EmailLog[]>([]);
+  const [rateLimits, setRateLimits] = useState<RateLimitStatus | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEmail[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rangeDays, setRangeDays] = useState(14);
+  const [statusFilter, setStatusFilter] = useState<"all" | EmailLog["status"]>("all");
+  const [templateFilter, setTemplateFilter] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const since = startOfDay(subDays(new Date(), rangeDays - 1));
+      const [fetchedLogs, fetchedRateLimits, fetchedOutbox] = await Promise.all([
+        EmailNotificationClient.getLogs(MAX_LOGS, since),
+        EmailNotificationClient.getRateLimits(),
+        EmailNotificationClient.getOutbox(),
+      ]);
+      setLogs(fetchedLogs);
+      setRateLimits(fetchedRateLimits);
+      setOutbox(fetchedOutbox);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeDays, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const retried = await EmailNotificationClient.retry(id);
+      setOutbox((prev) => prev.map((email) => (email.id === id ? retried : email)));
+      toast({ title: "Email queued", description: "It will be sent within a minute." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  // Everything except the status filter, so the chart and totals still show the full breakdown
+  const rangeLogs = useMemo(() => {
+    const now = new Date();
+    const query = searchQuery.trim().toLowerCase();
+
+    return filterLogsByDateRange(logs, startOfDay(subDays(now, rangeDays - 1)), now).filter(
+      (log) =>
+        (templateFilter === "all" || (log.template ?? "custom") === templateFilter) &&
+        (!query ||
+          log.subject.toLowerCase().includes(query) ||
+          log.recipient.toLowerCase().includes(query) ||
+          log.error_message?.toLowerCase().includes(query))
+    );
+  }, [logs, rangeDays, templateFilter, searchQuery]);
+
+  const visibleLogs = useMemo(
+    () => (statusFilter === "all" ? rangeLogs : rangeLogs.filter((log) => log.status === statusFilter)),
+    [rangeLogs, statusFilter]
+  );
+
+  const chartData = useMemo(() => {
+    const now = new Date();
+    return countLogsByDay(rangeLogs, subDays(now, rangeDays - 1), now);
+  }, [rangeLogs, rangeDays]);
+
+  const templates = useMemo(
+    () => Array.from(new Set(logs.map((log) => log.template ?? "custom"))).sort(),
+    [logs]
+  );
+
+  const byStatus = groupLogsByStatus(rangeLogs);
+  // Suppressed and rate-limited emails were never attempted, so they don't count against delivery
+  const successRate = calculateSuccessRate([...byStatus.sent, ...byStatus.failed]);
+  const remaining = rateLimits ? calculateRemainingEmails(rateLimits.usage, rateLimits.limits) : null;
+  const rateLimitMessage = rateLimits ? getRateLimitMessage(rateLimits.usage, rateLimits.limits) : null;
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar />
+      <SidebarInset>
+        <div className="min-h-screen bg-background pb-24">
+          <header className="border-b border-border/50 bg-card">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <SidebarTrigger />
+                  <h1 className="text-xl sm:text-2xl font-semibold text-foreground">Notifications</h1>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Link to="/notifications/templates">
+                    <Button variant="outline" size="sm">
+                      <FileText className="h-4 w-4 mr-2" />
+                      Templates
+                    </Button>
+                  </Link>
+                  <Button variant="outline" size="sm" onClick={fetchData} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+                    Refresh
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </header>
+
+          <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <Card className="shadow-sm border-border/50">
+                <CardHeader className="pb-2">
+                  <CardDescription>Sent</CardDescription>
+                  <CardTitle className="text-2xl">{byStatus.sent.length}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {byStatus.suppressed.length} suppressed by recipient preferences,{" "}
+                  {byStatus.rateLimited.length} rate limited
+                </CardContent>
+              </Card>
+              <Card className="shadow-sm border-border/50">
+                <CardHeader className="pb-2">
+                  <CardDescription>Failed</CardDescription>
+                  <CardTitle className="text-2xl">{byStatus.failed.length}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {rateLimits
+                    ? `${rateLimits.usage.failedToday} of ${rateLimits.limits.maxFailuresPerDay} allowed in the last 24 hours`
+                    : "–"}
+                </CardContent>
+              </Card>
+              <Card className="shadow-sm border-border/50">
+                <CardHeader className="pb-2">
+                  <CardDescription>Success rate</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {byStatus.sent.length + byStatus.failed.length > 0 ? `${Math.round(successRate)}%` : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {DATE_RANGES.find((range) => range.days === rangeDays)?.label}
+                </CardContent>
+              </Card>
+              <Card className="shadow-sm border-border/50">
+                <CardHeader className="pb-2">
+                  <CardDescription>Remaining quota</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {remaining ? `${remaining.remainingThisHour} / ${remaining.remainingToday}` : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent
+                  className={`text-xs ${rateLimitMessage ? "text-destructive" : "text-muted-foreground"}`}
+                >
+                  {rateLimitMessage ??
+                    (rateLimits &&
+                      `This hour / 24 hours on the ${rateLimits.limits.plan} plan (${rateLimits.limits.maxEmailsPerHour} / ${rateLimits.limits.maxEmailsPerDay})`)}
+                </CardContent>
+              </Card>
+            </div>
+
+            {outbox.length > 0 && (
+              <Card className="shadow-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-lg">Delivery queue</CardTitle>
+                  <CardDescription>
+                    Emails that failed are retried automatically with increasing delays.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <EmailOutboxList emails={outbox} retryingId={retryingId} onRetry={handleRetry} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Emails per day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EmailSendsChart data={chartData} />
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader className="space-y-4">
+                <CardTitle className="text-lg">Email log</CardTitle>
+                <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap">
+                  <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="Search subject, recipient or error..."
+                      className="pl-9"
+                    />
+                  </div>
+                  <Select
+                    value={statusFilter}
+                    onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}
+                  >
+                    <SelectTrigger className="sm:w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      <SelectItem value="sent">Sent</SelectItem>
+                      <SelectItem value="failed">Failed</SelectItem>
+                      <SelectItem value="rate_limited">Rate limited</SelectItem>
+                      <SelectItem value="suppressed">Suppressed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={templateFilter} onValueChange={setTemplateFilter}>
+                    <SelectTrigger className="sm:w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All email types</SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template} value={template}>
+                          {template === "custom" ? "Custom" : getTemplateLabel(template)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+                    <SelectTrigger className="sm:w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_RANGES.map((range) => (
+                        <SelectItem key={range.days} value={String(range.days)}>
+                          {range.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {loading && logs.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">Loading...</p>
+                ) : (
+                  <EmailLogTable logs={visibleLogs} />
+                )}
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Notifications;
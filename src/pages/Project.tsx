@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { TaskForm } from "@/components/tasks/TaskForm";
+import { TaskList } from "@/components/tasks/TaskList";
+import { TaskSearch } from "@/components/tasks/TaskSearch";
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
+import { hasWorkspaceRole, useWorkspaces } from "@/hooks/use-workspaces";
+import type { Project as ProjectRow } from "@/hooks/use-projects";
+
+const Project = () => {
+  const { id } = useParams<{ id: string }>();
+  const [project, setProject] = useState<ProjectRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { timeZone } = useProfile();
+  const { currentWorkspace, loading: workspacesLoading } = useWorkspaces();
+  const { toast } = useToast();
+
+  // Same workspace and permissions as the task lists on the home page
+  const workspaceId = currentWorkspace?.id ?? null;
+  const canEditTasks = !currentWorkspace || hasWorkspaceRole(currentWorkspace.role, "member");
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("projects")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        toast({
+          title: "Error loading project",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+
+      setProject(data);
+      setLoading(false);
+    };
+
+    fetchProject();
+  }, [id, toast]);
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar />
+      <SidebarInset>
+        <div className="min-h-screen bg-background pb-24">
+          <header className="border-b border-border/50 bg-card">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                {project && !workspacesLoading && (
+                  <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+                )}
+                <h1 className="text-xl sm:text-2xl font-semibold text-foreground">
+                  {loading ? "Loading..." : project?.name ?? "Project not found"}
+                </h1>
+                {project?.archived && <Badge variant="secondary">Archived</Badge>}
+                <div className="ml-auto">
+                  <TaskSearch workspaceId={workspaceId} />
+                </div>
+              </div>
+            </div>
+          </header>
+
+          {project && !workspacesLoading && (
+            <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8 max-w-6xl">
+              {!project.archived && canEditTasks && (
+                <TaskForm
+                  key={`${project.id}-${workspaceId ?? "personal"}`}
+                  defaultProjectId={project.id}
+                  workspaceId={workspaceId}
+                  timeZone={timeZone}
+                />
+              )}
+
+              <div>
+                <h2 className="text-lg sm:text-xl font-semibold mb-4 text-foreground">Tasks</h2>
+                <TaskList
+                  projectId={project.id}
+                  workspaceId={workspaceId}
+                  readOnly={!canEditTasks}
+                  timeZone={timeZone}
+                />
+              </div>
+            </main>
+          )}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Project;
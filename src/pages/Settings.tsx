@@ -0,0 +1,390 @@
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
+import { useNotificationPreferences } from "@/hooks/use-notification-preferences";
+import { useInboundEmailAddress } from "@/hooks/use-inbound-email-address";
+import { EmailNotificationClient } from "@/api/notifications";
+import { getLocaleLabel, getTemplateLabel } from "@/api/notifications/utils";
+import type { EmailTemplate, NotificationPreference } from "@/api/notifications";
+import { getSupportedTimeZones } from "@/lib/timezone";
+import { format } from "date-fns";
+import { Copy, RefreshCw } from "lucide-react";
+
+const TIME_ZONES = getSupportedTimeZones();
+
+const REMINDER_WINDOWS = [
+  { hours: 1, label: "1 hour before" },
+  { hours: 3, label: "3 hours before" },
+  { hours: 12, label: "12 hours before" },
+  { hours: 24, label: "1 day before" },
+  { hours: 48, label: "2 days before" },
+  { hours: 168, label: "1 week before" },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour), "h a");
+
+// Quiet hours default to an overnight window when first turned on
+const DEFAULT_QUIET_HOURS_LENGTH = 9;
+
+const Settings = () => {
+  const { profile, timeZone, loading, updateProfile } = useProfile();
+  const {
+    loading: preferencesLoading,
+    updatePreference,
+    getPreference,
+  } = useNotificationPreferences();
+  const {
+    address: inboundAddress,
+    loading: inboundAddressLoading,
+    error: inboundAddressError,
+    regenerate: regenerateInboundAddress,
+  } = useInboundEmailAddress();
+  const { toast } = useToast();
+
+  // The on/off switches for these live with the other email preferences below
+  const reminderPreference = getPreference("task-reminder");
+  const digestPreference = getPreference("daily-digest");
+
+  const saveSettings = async (updates: Parameters<typeof updateProfile>[0]) => {
+    try {
+      await updateProfile(updates);
+      toast({ title: "Settings saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const savePreference = async (
+    template: EmailTemplate,
+    updates: Partial<Omit<NotificationPreference, "template">>
+  ) => {
+    try {
+      await updatePreference(template, updates);
+      toast({ title: "Settings saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyInboundAddress = async () => {
+    try {
+      await navigator.clipboard.writeText(inboundAddress!);
+      toast({ title: "Address copied" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRegenerateInboundAddress = async () => {
+    try {
+      await regenerateInboundAddress();
+      toast({ title: "New address created", description: "Emails to your old address will be rejected." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleQuietHoursStartChange = (template: EmailTemplate, value: string) => {
+    if (value === "none") {
+      savePreference(template, { quiet_hours_start: null, quiet_hours_end: null });
+      return;
+    }
+
+    const start = Number(value);
+    const currentEnd = getPreference(template)?.quiet_hours_end;
+    savePreference(template, {
+      quiet_hours_start: start,
+      quiet_hours_end: currentEnd ?? (start + DEFAULT_QUIET_HOURS_LENGTH) % 24,
+    });
+  };
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar />
+      <SidebarInset>
+        <div className="min-h-screen bg-background pb-24">
+          <header className="border-b border-border/50 bg-card">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <h1 className="text-xl sm:text-2xl font-semibold text-foreground">Settings</h1>
+              </div>
+            </div>
+          </header>
+
+          <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 max-w-3xl">
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Time zone</CardTitle>
+                <CardDescription>
+                  Decides when your day starts and how due times and reminder emails are shown.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select
+                  value={timeZone}
+                  onValueChange={(value) => saveSettings({ time_zone: value })}
+                  disabled={loading}
+                >
+                  <SelectTrigger aria-label="Time zone" className="sm:w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]).map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Email language</CardTitle>
+                <CardDescription>
+                  The language of emails sent to you, including how dates in them are written.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select
+                  value={profile?.locale ?? "en"}
+                  onValueChange={(value) => saveSettings({ locale: value })}
+                  disabled={loading}
+                >
+                  <SelectTrigger aria-label="Email language" className="sm:w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EmailNotificationClient.LOCALES.map((locale) => (
+                      <SelectItem key={locale} value={locale}>
+                        {getLocaleLabel(locale)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Tasks</CardTitle>
+                <CardDescription>Control how unfinished tasks carry over between days.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="auto-rollover">Roll over overdue tasks</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Move unfinished tasks from previous days to today when you open the app.
+                    </p>
+                  </div>
+                  <Switch
+                    id="auto-rollover"
+                    checked={profile?.auto_rollover ?? false}
+                    onCheckedChange={(autoRollover) => saveSettings({ auto_rollover: autoRollover })}
+                    disabled={loading}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Create tasks by email</CardTitle>
+                <CardDescription>
+                  Forward or send an email from your account address to this address to add it as a task. The subject becomes the task name and the body its description.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {inboundAddressError ? (
+                  <p className="text-sm text-destructive">{inboundAddressError}</p>
+                ) : !inboundAddressLoading && !inboundAddress ? (
+                  <p className="text-sm text-muted-foreground">Inbound email is not set up for this app.</p>
+                ) : (
+                  <div className="flex flex-col gap-2 sm:flex-row">
+                    <Input
+                      readOnly
+                      value={inboundAddress ?? ""}
+                      aria-label="Inbound email address"
+                      className="font-mono text-sm"
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={copyInboundAddress} disabled={!inboundAddress}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy
+                      </Button>
+                      <Button variant="outline" onClick={handleRegenerateInboundAddress} disabled={!inboundAddress}>
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        New address
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Reminders</CardTitle>
+                <CardDescription>
+                  Get an email before a task is due. Tasks without a due time are due at the end of the day.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="reminder-window">Send reminders</Label>
+                  <Select
+                    value={String(profile?.reminder_window_hours ?? 24)}
+                    onValueChange={(value) => saveSettings({ reminder_window_hours: Number(value) })}
+                    disabled={loading || !reminderPreference?.enabled}
+                  >
+                    <SelectTrigger id="reminder-window" className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REMINDER_WINDOWS.map((window) => (
+                        <SelectItem key={window.hours} value={String(window.hours)}>
+                          {window.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Daily digest</CardTitle>
+                <CardDescription>
+                  An email at your chosen hour with today's tasks grouped by priority, plus anything overdue. Turn it on under Email notifications.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="digest-hour">Send at</Label>
+                  <Select
+                    value={String(profile?.digest_hour ?? 8)}
+                    onValueChange={(value) => saveSettings({ digest_hour: Number(value) })}
+                    disabled={loading || !digestPreference?.enabled}
+                  >
+                    <SelectTrigger id="digest-hour" className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-lg">Email notifications</CardTitle>
+                <CardDescription>
+                  Choose which emails you receive. During quiet hours, in your time zone, emails of that kind wait until the quiet hours end.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {EmailNotificationClient.TEMPLATES.map((template) => {
+                  const preference = getPreference(template);
+                  const hasQuietHours = preference?.quiet_hours_start != null;
+
+                  return (
+                    <div key={template} className="py-3 first:pt-0 last:pb-0 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor={`notify-${template}`}>{getTemplateLabel(template)}</Label>
+                        <Switch
+                          id={`notify-${template}`}
+                          checked={preference?.enabled ?? false}
+                          onCheckedChange={(enabled) => savePreference(template, { enabled })}
+                          disabled={preferencesLoading}
+                        />
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <span>Quiet hours</span>
+                        <Select
+                          value={hasQuietHours ? String(preference.quiet_hours_start) : "none"}
+                          onValueChange={(value) => handleQuietHoursStartChange(template, value)}
+                          disabled={preferencesLoading || !preference?.enabled}
+                        >
+                          <SelectTrigger aria-label={`${getTemplateLabel(template)} quiet hours start`} className="h-8 w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Off</SelectItem>
+                            {HOURS.map((hour) => (
+                              <SelectItem key={hour} value={String(hour)}>
+                                {formatHour(hour)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {hasQuietHours && (
+                          <>
+                            <span>to</span>
+                            <Select
+                              value={String(preference.quiet_hours_end)}
+                              onValueChange={(value) => savePreference(template, { quiet_hours_end: Number(value) })}
+                              disabled={preferencesLoading || !preference.enabled}
+                            >
+                              <SelectTrigger aria-label={`${getTemplateLabel(template)} quiet hours end`} className="h-8 w-28">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {HOURS.map((hour) => (
+                                  <SelectItem key={hour} value={String(hour)}>
+                                    {formatHour(hour)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmailNotificationClient } from "@/api/notifications";
+import { getTemplateLabel } from "@/api/notifications/utils";
+
+type UnsubscribeState =
+  | { status: "working" }
+  | { status: "done"; template: string; enabled: boolean }
+  | { status: "error"; message: string };
+
+/**
+ * Public landing page for the unsubscribe link in every email. Works without signing in;
+ * the signed token in the link identifies the user and the email type.
+ */
+const Unsubscribe = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [state, setState] = useState<UnsubscribeState>({ status: "working" });
+  const hasSubmitted = useRef(false);
+
+  const updateSubscription = useCallback(async (enabled: boolean) => {
+    if (!token) {
+      setState({ status: "error", message: "This unsubscribe link is incomplete." });
+      return;
+    }
+
+    setState({ status: "working" });
+    try {
+      const result = await EmailNotificationClient.unsubscribe(token, enabled);
+      setState({ status: "done", template: result.template, enabled: result.enabled });
+    } catch (error) {
+      setState({ status: "error", message: (error as Error).message });
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+    updateSubscription(false);
+  }, [updateSubscription]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md shadow-md border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl">
+            {state.status === "working" && "Updating your preferences..."}
+            {state.status === "done" && (state.enabled ? "You're subscribed again" : "You've been unsubscribed")}
+            {state.status === "error" && "Something went wrong"}
+          </CardTitle>
+          {state.status === "done" && (
+            <CardDescription>
+              {state.enabled
+                ? `You'll receive "${getTemplateLabel(state.template)}" emails again.`
+                : `You won't receive "${getTemplateLabel(state.template)}" emails anymore.`}
+            </CardDescription>
+          )}
+          {state.status === "error" && <CardDescription>{state.message}</CardDescription>}
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          {state.status === "done" && (
+            <Button variant="outline" onClick={() => updateSubscription(!state.enabled)}>
+              {state.enabled ? "Unsubscribe" : "Resubscribe"}
+            </Button>
+          )}
+          <Link to="/settings">
+            <Button variant="ghost">Manage all email settings</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Unsubscribe;
@@ -13,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
+    const { messages, workspaceId } = await req.json();
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     
     if (!LOVABLE_API_KEY) {
@@ -39,6 +39,8 @@ When the user wants to add a task, extract:
 - Task name (required)
 - Description (optional)
 - Due date (optional, in YYYY-MM-DD format)
+- Tags (optional short labels such as "work", "home" or "errands")
+- Steps (optional checklist items when the task has several parts, e.g. "plan the offsite: book venue, send invites, order food" becomes one task with three steps)
 
 Once you have the task name, create the task. If the user provides additional details, incorporate them.
 
@@ -76,6 +78,16 @@ Be conversational and friendly. Ask clarifying questions if needed, but don't be
                   due_date: {
                     type: 'string',
                     description: 'Optional due date in YYYY-MM-DD format'
+                  },
+                  tags: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Optional short lowercase labels for the task, e.g. ["work", "finance"]'
+                  },
+                  steps: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Optional checklist items that break the task into steps'
                   }
                 },
                 required: ['name']
@@ -111,15 +123,24 @@ Be conversational and friendly. Ask clarifying questions if needed, but don't be
       const toolCall = message.tool_calls[0];
       if (toolCall.function.name === 'create_task') {
         const taskData = JSON.parse(toolCall.function.arguments);
+        // Same normalization as normalizeTag in src/lib/tags.ts
+        const tags: string[] = Array.from(new Set(
+          (taskData.tags || [])
+            .map((tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-'))
+            .filter(Boolean)
+        ));
         
         // Create the task in Supabase
         const { data: task, error: taskError } = await supabase
           .from('tasks')
           .insert({
             user_id: user.id,
+            // RLS only lets members create tasks in the workspace
+            workspace_id: workspaceId ?? null,
             name: taskData.name,
             description: taskData.description || null,
-            due_date: taskData.due_date || null
+            due_date: taskData.due_date || null,
+            tags
           })
           .select()
           .single();
@@ -131,11 +152,31 @@ Be conversational and friendly. Ask clarifying questions if needed, but don't be
 
         console.log('Task created successfully:', task);
 
+        const steps: string[] = (taskData.steps || [])
+          .map((step: string) => step.trim())
+          .filter(Boolean);
+
+        if (steps.length > 0) {
+          const { error: itemsError } = await supabase
+            .from('task_items')
+            .insert(steps.map((step, position) => ({
+              task_id: task.id,
+              user_id: user.id,
+              name: step,
+              position
+            })));
+
+          if (itemsError) {
+            console.error('Error creating task items:', itemsError);
+            throw itemsError;
+          }
+        }
+
         return new Response(
           JSON.stringify({
             message: {
               role: 'assistant',
-              content: `Great! I've created the task "${taskData.name}"${taskData.due_date ? ` for ${taskData.due_date}` : ''}.`
+              content: `Great! I've created the task "${taskData.name}"${taskData.due_date ? ` for ${taskData.due_date}` : ''}${steps.length > 0 ? ` with ${steps.length} step${steps.length === 1 ? '' : 's'}` : ''}.`
             },
             task_created: true
           }),
@@ -12,7 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const { taskId, description } = await req.json();
+    const { taskId, description, force = false } = await req.json();
     
     if (!taskId || !description) {
       return new Response(
@@ -26,6 +26,39 @@ serve(async (req) => {
       throw new Error('LOVABLE_API_KEY is not configured');
     }
 
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select('priority, priority_source')
+      .eq('id', taskId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching task:', fetchError);
+      throw fetchError;
+    }
+
+    if (!task) {
+      console.log('Skipping deleted task:', taskId);
+      return new Response(
+        JSON.stringify({ skipped: true, reason: 'Task was deleted' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Never silently undo a priority the user picked by hand
+    if (task.priority_source === 'manual' && !force) {
+      console.log('Skipping manually prioritized task:', taskId);
+      return new Response(
+        JSON.stringify({ priority: task.priority, skipped: true, reason: 'Priority was set manually' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log('Analyzing task:', description);
 
     // Call Lovable AI to prioritize the task
@@ -93,24 +126,28 @@ serve(async (req) => {
 
     console.log('Extracted priority:', priority, 'Reasoning:', reasoning);
 
-    // Update the task with the priority
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    const { error: updateError } = await supabase
-      .from('tasks')
-      .update({ 
-        priority,
-        priority_reasoning: reasoning
-      })
-      .eq('id', taskId);
+    // Update the task with the priority, recorded in its history as an AI change. The
+    // checks above can be stale by now, so the update checks again.
+    const { data: updated, error: updateError } = await supabase.rpc('set_ai_priority', {
+      target_task_id: taskId,
+      new_priority: priority,
+      reasoning,
+      force,
+    });
 
     if (updateError) {
       console.error('Error updating task:', updateError);
       throw updateError;
     }
 
+    if (!updated) {
+      console.log('Task was prioritized manually or deleted in the meantime:', taskId);
+      return new Response(
+        JSON.stringify({ skipped: true, reason: 'Priority was set manually or the task was deleted' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log('Task updated successfully');
 
     return new Response(
@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { deliverEmail, type DeliveryResult } from '../send-email-notification/pipeline.ts';
+import { recordAttempt, type OutboxEmail } from '../send-email-notification/outbox.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 20;
+
+/**
+ * Scheduled job (see the process-email-outbox cron entry) that retries queued and failed
+ * emails from email_outbox whose next attempt is due.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduler, which holds the service role key, may trigger a run
+    if (req.headers.get('authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Claiming marks the batch 'sending', so overlapping runs never pick the same email
+    const { data: emails, error: claimError } = await supabase.rpc('claim_email_outbox', {
+      batch_size: BATCH_SIZE,
+    });
+
+    if (claimError) {
+      console.error('Error claiming outbox emails:', claimError);
+      throw claimError;
+    }
+
+    const summary = { sent: 0, failed: 0, dead: 0, deferred: 0 };
+
+    for (const email of (emails || []) as OutboxEmail[]) {
+      let result: DeliveryResult;
+
+      try {
+        result = await deliverEmail(supabase, email.user_id, email.request);
+      } catch (error) {
+        console.error('Error retrying email:', error);
+        result = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      const { status } = await recordAttempt(supabase, email, result);
+      if (status === 'sent' || status === 'failed' || status === 'dead') {
+        summary[status]++;
+      } else if (status === 'queued') {
+        summary.deferred++;
+      }
+    }
+
+    console.log('Email outbox run complete:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-email-outbox:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
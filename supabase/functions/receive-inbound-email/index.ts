@@ -0,0 +1,241 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { deliverEmail, type EmailRequest } from '../send-email-notification/pipeline.ts';
+import { queueDeferredEmail } from '../send-email-notification/outbox.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 10000;
+
+interface InboundEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Read the webhook payload, sent either as JSON or as a form post by most providers
+ */
+async function parseInboundEmail(req: Request): Promise<InboundEmail> {
+  const fields: Record<string, unknown> = req.headers.get('content-type')?.includes('application/json')
+    ? await req.json()
+    : Object.fromEntries((await req.formData()).entries());
+
+  const field = (name: string) => {
+    const value = fields[name];
+    return Array.isArray(value) ? value.join(', ') : typeof value === 'string' ? value : '';
+  };
+
+  return { from: field('from'), to: field('to'), subject: field('subject'), text: field('text') };
+}
+
+/**
+ * Bare addresses from a header such as `"Jane Doe" <jane@example.com>, tasks+abc@example.com`
+ */
+function extractAddresses(header: string): string[] {
+  return (header.match(/[^\s<>,;"]+@[^\s<>,;"]+/g) ?? []).map((address) => address.toLowerCase());
+}
+
+/**
+ * The token from the first recipient shaped like `tasks+<token>@<domain>`
+ */
+function findToken(recipients: string[]): string | null {
+  const domain = Deno.env.get('INBOUND_EMAIL_DOMAIN')?.toLowerCase();
+
+  for (const address of recipients) {
+    const match = address.match(/^[^+@]+\+([a-z0-9]+)@(.+)$/);
+    if (match && (!domain || match[2] === domain)) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Forwarded and replied-to subjects make poor task names
+ */
+function toTaskName(subject: string): string {
+  const name = subject.replace(/^\s*((re|fwd?|aw|wg|rv)\s*:\s*)+/i, '').trim();
+  return (name || 'Untitled email task').slice(0, MAX_NAME_LENGTH);
+}
+
+async function logInboundEmail(
+  supabase: SupabaseClient,
+  entry: {
+    user_id?: string;
+    sender: string;
+    recipient: string;
+    subject: string;
+    status: 'accepted' | 'rejected';
+    reason?: string;
+    task_id?: string;
+  }
+) {
+  const { error } = await supabase.from('inbound_emails').insert({ ...entry, subject: entry.subject || null });
+  if (error) {
+    console.error('Error logging inbound email:', error);
+  }
+}
+
+/**
+ * Webhook for the inbound email provider. Turns an email sent to a user's inbound address
+ * into a task: the subject becomes the name and the body the description. The task is
+ * prioritized by prioritize-task and the sender gets a task-created confirmation.
+ *
+ * The provider must call `?secret=<INBOUND_EMAIL_SECRET>`. Emails to unknown addresses, or
+ * from anyone but the address owner's account email, are rejected with 403 and logged.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const secret = Deno.env.get('INBOUND_EMAIL_SECRET');
+    if (!secret) {
+      throw new Error('INBOUND_EMAIL_SECRET is not configured');
+    }
+
+    if (new URL(req.url).searchParams.get('secret') !== secret) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const email = await parseInboundEmail(req);
+    const sender = extractAddresses(email.from)[0];
+    const recipients = extractAddresses(email.to);
+
+    if (!sender || recipients.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: from, to' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Providers retry any non-2xx reply, so a rejection is logged once and acknowledged
+    const reject = async (reason: string, userId?: string) => {
+      console.warn(`Rejected inbound email from ${sender}: ${reason}`);
+      await logInboundEmail(supabase, {
+        user_id: userId,
+        sender,
+        recipient: recipients.join(', '),
+        subject: email.subject,
+        status: 'rejected',
+        reason,
+      });
+      return new Response(
+        JSON.stringify({ rejected: true, reason }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    };
+
+    const token = findToken(recipients);
+    const { data: address, error: addressError } = token
+      ? await supabase.from('inbound_email_addresses').select('user_id').eq('token', token).maybeSingle()
+      : { data: null, error: null };
+
+    if (addressError) {
+      console.error('Error looking up inbound address:', addressError);
+      throw addressError;
+    }
+    if (!address) {
+      return await reject('Unknown inbound address');
+    }
+
+    const { data: { user: owner }, error: ownerError } = await supabase.auth.admin.getUserById(address.user_id);
+    if (ownerError) {
+      console.error('Error loading address owner:', ownerError);
+      throw ownerError;
+    }
+
+    // Only the owner may add tasks, so a leaked address cannot be used by anyone else
+    if (!owner?.email || owner.email.toLowerCase() !== sender) {
+      return await reject('Sender does not own this inbound address', address.user_id);
+    }
+
+    const name = toTaskName(email.subject);
+    const description = email.text.trim().slice(0, MAX_DESCRIPTION_LENGTH) || null;
+
+    const { data: task, error: insertError } = await supabase
+      .from('tasks')
+      .insert({ user_id: owner.id, name, description, priority_source: 'ai' })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('Error creating task:', insertError);
+      throw insertError;
+    }
+
+    let priority: string | undefined;
+    let reasoning: string | undefined;
+    try {
+      const { data, error } = await supabase.functions.invoke('prioritize-task', {
+        body: { taskId: task.id, description: description ?? name },
+      });
+      if (error) throw error;
+      ({ priority, reasoning } = data);
+    } catch (error) {
+      // The task stays unprioritized; the confirmation says so
+      console.error('Error prioritizing inbound task:', error);
+    }
+
+    await logInboundEmail(supabase, {
+      user_id: owner.id,
+      sender,
+      recipient: recipients.join(', '),
+      subject: email.subject,
+      status: 'accepted',
+      task_id: task.id,
+    });
+
+    try {
+      const confirmation: EmailRequest = {
+        to: owner.email,
+        template: 'task-created',
+        data: {
+          taskName: name,
+          description,
+          priority,
+          priorityReasoning: reasoning,
+          url: Deno.env.get('APP_URL'),
+        },
+      };
+      const result = await deliverEmail(supabase, owner.id, confirmation);
+
+      if (result.status === 'deferred') {
+        await queueDeferredEmail(supabase, owner.id, `task-created:${task.id}`, confirmation, result);
+      }
+    } catch (error) {
+      console.error('Error sending task-created confirmation:', error);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, taskId: task.id, priority: priority ?? null }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in receive-inbound-email:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
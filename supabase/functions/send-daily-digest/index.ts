@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { deliverEmail, type DeliveryResult, type EmailRequest } from '../send-email-notification/pipeline.ts';
+import { enqueueEmail, recordAttempt } from '../send-email-notification/outbox.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DueDigest {
+  user_id: string;
+  email: string;
+  time_zone: string;
+  digest_date: string;
+}
+
+interface OpenTask {
+  name: string;
+  priority: string | null;
+  priority_reasoning: string | null;
+  due_date: string | null;
+  due_at: string | null;
+}
+
+const toDigestTask = (task: OpenTask) => ({
+  name: task.name,
+  priority: task.priority,
+  priorityReasoning: task.priority_reasoning,
+  dueDate: task.due_date,
+  dueAt: task.due_at,
+});
+
+/**
+ * Scheduled job (see the send-daily-digest cron entry) that emails each opted-in user
+ * their open tasks for the day, plus overdue ones, once their local digest hour arrives.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduler, which holds the service role key, may trigger a run
+    if (req.headers.get('authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const appUrl = Deno.env.get('APP_URL');
+
+    const { data: digests, error: fetchError } = await supabase.rpc('get_due_daily_digests');
+
+    if (fetchError) {
+      console.error('Error fetching due digests:', fetchError);
+      throw fetchError;
+    }
+
+    const summary = { sent: 0, queued: 0, failed: 0, skipped: 0 };
+
+    for (const digest of (digests || []) as DueDigest[]) {
+      // Claim the day first; a unique violation means another run already has it
+      const { data: claim, error: claimError } = await supabase
+        .from('daily_digests')
+        .insert({ user_id: digest.user_id, digest_date: digest.digest_date })
+        .select('id')
+        .single();
+
+      if (claimError?.code === '23505') {
+        summary.skipped++;
+        continue;
+      }
+      if (claimError) {
+        console.error('Error claiming digest:', claimError);
+        summary.failed++;
+        continue;
+      }
+
+      let status: 'sent' | 'queued' | 'failed' | 'skipped';
+      let result: DeliveryResult | null = null;
+      let outboxId: string | null = null;
+
+      try {
+        // Same selection as the app's Today views, personal and workspace, plus everything overdue
+        const { data: tasks, error: tasksError } = await supabase.rpc('get_daily_digest_tasks', {
+          target_user_id: digest.user_id,
+          digest_date: digest.digest_date,
+        });
+
+        if (tasksError) throw tasksError;
+
+        const openTasks = (tasks || []) as OpenTask[];
+        const today = openTasks.filter((task) => !task.due_date || task.due_date === digest.digest_date);
+        const overdue = openTasks
+          .filter((task) => task.due_date && task.due_date < digest.digest_date)
+          .sort((a, b) => a.due_date!.localeCompare(b.due_date!));
+
+        if (today.length === 0 && overdue.length === 0) {
+          status = 'skipped';
+        } else {
+          const emailData: EmailRequest = {
+            to: digest.email,
+            template: 'daily-digest',
+            data: {
+              date: digest.digest_date,
+              timeZone: digest.time_zone,
+              tasks: today.map(toDigestTask),
+              overdue: overdue.map(toDigestTask),
+              url: appUrl,
+            },
+          };
+
+          // Queued like every other email, so process-email-outbox retries a failed first
+          // attempt and holds the digest through the recipient's quiet hours
+          const { email } = await enqueueEmail(supabase, digest.user_id, `daily-digest:${claim.id}`, emailData);
+          outboxId = email.id;
+
+          try {
+            result = await deliverEmail(supabase, digest.user_id, emailData);
+          } catch (error) {
+            result = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+          }
+
+          const attempt = await recordAttempt(supabase, email, result);
+          status =
+            attempt.status === 'sent' ? 'sent'
+            : attempt.status !== 'dead' ? 'queued'
+            : result.status === 'suppressed' ? 'skipped'
+            : 'failed';
+        }
+      } catch (error) {
+        console.error('Error sending digest:', error);
+        status = 'failed';
+      }
+
+      summary[status]++;
+
+      const { error: updateError } = await supabase
+        .from('daily_digests')
+        .update({ status, email_log_id: result?.logId ?? null, email_outbox_id: outboxId })
+        .eq('id', claim.id);
+
+      if (updateError) {
+        console.error('Error updating digest:', updateError);
+      }
+    }
+
+    console.log('Daily digest run complete:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-daily-digest:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
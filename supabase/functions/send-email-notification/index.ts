@@ -1,148 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
-import { renderTemplate } from './templates/index.ts';
+import {
+  deliverEmail,
+  getRateLimitStatus,
+  renderEmail,
+  type DeliveryResult,
+  type EmailRequest,
+} from './pipeline.ts';
+import { enqueueEmail, recordAttempt } from './outbox.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 };
 
-interface EmailRequest {
-  to: string;
-  subject: string;
-  template?: string;
-  data?: Record<string, any>;
-  html?: string;
-  text?: string;
-}
-
-interface RateLimitConfig {
-  maxEmailsPerHour: number;
-  maxEmailsPerDay: number;
-}
-
-const rateLimitConfig: RateLimitConfig = {
-  maxEmailsPerHour: 10,
-  maxEmailsPerDay: 50,
-};
-
-async function checkRateLimit(
-  supabase: any,
-  userId: string
-): Promise<{ allowed: boolean; reason?: string }> {
-  const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-  const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-  // Check hourly limit
-  const { count: hourlyCount, error: hourlyError } = await supabase
-    .from('email_logs')
-    .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
-    .gte('created_at', oneHourAgo.toISOString());
-
-  if (hourlyError) {
-    console.error('Error checking hourly rate limit:', hourlyError);
-    throw hourlyError;
-  }
-
-  if ((hourlyCount || 0) >= rateLimitConfig.maxEmailsPerHour) {
-    return {
-      allowed: false,
-      reason: `Hourly rate limit exceeded. Maximum ${rateLimitConfig.maxEmailsPerHour} emails per hour.`,
-    };
-  }
-
-  // Check daily limit
-  const { count: dailyCount, error: dailyError } = await supabase
-    .from('email_logs')
-    .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
-    .gte('created_at', oneDayAgo.toISOString());
-
-  if (dailyError) {
-    console.error('Error checking daily rate limit:', dailyError);
-    throw dailyError;
-  }
-
-  if ((dailyCount || 0) >= rateLimitConfig.maxEmailsPerDay) {
-    return {
-      allowed: false,
-      reason: `Daily rate limit exceeded. Maximum ${rateLimitConfig.maxEmailsPerDay} emails per day.`,
-    };
-  }
-
-  return { allowed: true };
-}
-
-async function logEmail(
-  supabase: any,
-  userId: string,
-  emailData: EmailRequest,
-  status: 'sent' | 'failed',
-  error?: string
-) {
-  const { error: logError } = await supabase
-    .from('email_logs')
-    .insert({
-      user_id: userId,
-      recipient: emailData.to,
-      subject: emailData.subject,
-      template: emailData.template || null,
-      status,
-      error_message: error || null,
-    });
-
-  if (logError) {
-    console.error('Error logging email:', logError);
-  }
-}
-
-async function sendEmail(emailData: EmailRequest): Promise<void> {
-  const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
-
-  if (!RESEND_API_KEY) {
-    throw new Error('RESEND_API_KEY is not configured');
-  }
-
-  let htmlContent = emailData.html;
-  let textContent = emailData.text;
-
-  // If template is specified, render it
-  if (emailData.template) {
-    const rendered = renderTemplate(emailData.template, emailData.data || {});
-    htmlContent = rendered.html;
-    textContent = rendered.text;
-  }
-
-  if (!htmlContent && !textContent) {
-    throw new Error('Either html, text, or template must be provided');
-  }
-
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      from: Deno.env.get('EMAIL_FROM') || 'noreply@tidy-prioritize.app',
-      to: emailData.to,
-      subject: emailData.subject,
-      html: htmlContent,
-      text: textContent,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Email service error: ${response.status} - ${errorData}`);
-  }
-
-  const result = await response.json();
-  console.log('Email sent successfully:', result);
-}
-
+/**
+ * Sends an email for the signed-in user. Every request is queued in email_outbox under its
+ * Idempotency-Key header, so repeating a request never sends twice, and a failed first
+ * attempt is retried in the background by process-email-outbox.
+ *
+ * Templated emails may leave out `subject` and are rendered in the recipient's language.
+ * GET returns the caller's rate limits and current usage instead, and a POST with
+ * `preview: true` only renders the template (in `locale`, if given) and returns its
+ * subject, HTML and text.
+ */
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -172,43 +53,133 @@ serve(async (req) => {
       );
     }
 
-    const emailData: EmailRequest = await req.json();
+    if (req.method === 'GET') {
+      const rateLimitStatus = await getRateLimitStatus(supabase, user.id);
+      return new Response(
+        JSON.stringify(rateLimitStatus),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { preview, ...emailData }: EmailRequest & { preview?: boolean } = await req.json();
+
+    // Render only: nothing is sent, logged or counted against the rate limit
+    if (preview) {
+      if (!emailData.template) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required field: template' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      try {
+        return new Response(
+          JSON.stringify(renderEmail(emailData)),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (error) {
+        // Usually an unknown template or sample data the template cannot handle
+        return new Response(
+          JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to render template' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
 
     // Validate request
-    if (!emailData.to || !emailData.subject) {
+    if (!emailData.to || (!emailData.subject && !emailData.template)) {
       return new Response(
-        JSON.stringify({ error: 'Missing required fields: to, subject' }),
+        JSON.stringify({ error: 'Missing required fields: to, and subject or template' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Check rate limit
-    const rateLimitCheck = await checkRateLimit(supabase, user.id);
-    if (!rateLimitCheck.allowed) {
-      await logEmail(supabase, user.id, emailData, 'failed', rateLimitCheck.reason);
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const idempotencyKey = req.headers.get('idempotency-key') || crypto.randomUUID();
+    const { email, duplicate } = await enqueueEmail(admin, user.id, idempotencyKey, emailData);
+
+    // Same key as an earlier request: report what happened to that one instead of sending again
+    if (duplicate) {
       return new Response(
-        JSON.stringify({ error: rateLimitCheck.reason }),
-        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          success: email.status === 'sent',
+          message: `Already requested with this idempotency key (status: ${email.status})`,
+          id: email.id,
+          status: email.status,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Send email
+    let result: DeliveryResult;
     try {
-      await sendEmail(emailData);
-      await logEmail(supabase, user.id, emailData, 'sent');
+      result = await deliverEmail(supabase, user.id, emailData);
+    } catch (error) {
+      result = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    // Rate-limited requests are rejected outright rather than sent later behind the caller's back
+    const { status, nextAttemptAt } = await recordAttempt(admin, email, result, {
+      retry: result.status !== 'rate_limited',
+    });
+
+    if (result.status === 'rate_limited') {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (result.status === 'deferred') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: `${result.error}. The email will be sent at ${nextAttemptAt!.toISOString()}.`,
+          id: email.id,
+          status,
+        }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (status === 'failed') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: `${result.error}. The email will be retried at ${nextAttemptAt!.toISOString()}.`,
+          id: email.id,
+          status,
+        }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (result.status === 'failed') {
+      throw new Error(result.error);
+    }
 
+    // Not an error for the sender: the recipient opted out
+    if (result.status === 'suppressed') {
       return new Response(
         JSON.stringify({
-          success: true,
-          message: 'Email sent successfully',
+          success: false,
+          message: result.error,
+          id: email.id,
+          status,
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await logEmail(supabase, user.id, emailData, 'failed', errorMessage);
-      throw error;
     }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Email sent successfully',
+        id: email.id,
+        status,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   } catch (error) {
     console.error('Error in send-email-notification:', error);
     return new Response(
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { getNextAttemptAt, recordAttempt, type OutboxEmail } from './outbox.ts';
+
+// pipeline.ts imports supabase-js from esm.sh, which only Deno can load
+vi.mock('./pipeline.ts', () => ({ getSubject: () => 'Subject' }));
+
+const NOW = new Date('2025-01-06T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+function createEmail(overrides: Partial<OutboxEmail> = {}): OutboxEmail {
+  return {
+    id: 'email-1',
+    user_id: 'user-1',
+    idempotency_key: 'key-1',
+    request: { to: 'someone@example.com', template: 'task-reminder' },
+    status: 'sending',
+    attempts: 1,
+    max_attempts: 5,
+    next_attempt_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Just enough of a service-role client for recordAttempt: captures the outbox update
+ */
+function createAdmin() {
+  const update = vi.fn(() => ({ eq: vi.fn(async () => ({ error: null })) }));
+  const admin = { from: vi.fn(() => ({ update })) } as unknown as SupabaseClient;
+  return { admin, update };
+}
+
+describe('getNextAttemptAt', () => {
+  it('doubles the delay after each failed attempt, starting at 2 minutes', () => {
+    expect(getNextAttemptAt(1, NOW).getTime() - NOW.getTime()).toBe(2 * MINUTE);
+    expect(getNextAttemptAt(2, NOW).getTime() - NOW.getTime()).toBe(4 * MINUTE);
+    expect(getNextAttemptAt(4, NOW).getTime() - NOW.getTime()).toBe(16 * MINUTE);
+  });
+
+  it('caps the delay at 6 hours', () => {
+    expect(getNextAttemptAt(20, NOW).getTime() - NOW.getTime()).toBe(6 * 60 * MINUTE);
+  });
+});
+
+describe('recordAttempt', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('marks sent emails as sent', async () => {
+    const { admin, update } = createAdmin();
+
+    const result = await recordAttempt(admin, createEmail(), { status: 'sent', logId: 'log-1' });
+
+    expect(result).toEqual({ status: 'sent', nextAttemptAt: undefined });
+    expect(update).toHaveBeenCalledWith({ status: 'sent', attempts: 1, last_error: null, email_log_id: 'log-1' });
+  });
+
+  it('schedules failed emails for another attempt with backoff', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const { admin, update } = createAdmin();
+
+    const result = await recordAttempt(admin, createEmail({ attempts: 2 }), { status: 'failed', error: 'Timeout' });
+
+    expect(result.status).toBe('failed');
+    expect(result.nextAttemptAt).toEqual(getNextAttemptAt(2, NOW));
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'failed',
+        attempts: 2,
+        last_error: 'Timeout',
+        next_attempt_at: getNextAttemptAt(2, NOW).toISOString(),
+      })
+    );
+  });
+
+  it('gives up once the email is out of attempts', async () => {
+    const { admin } = createAdmin();
+
+    const result = await recordAttempt(admin, createEmail({ attempts: 5 }), { status: 'failed', error: 'Timeout' });
+
+    expect(result).toEqual({ status: 'dead', nextAttemptAt: undefined });
+  });
+
+  it('does not retry suppressed emails or when retry is off', async () => {
+    const { admin } = createAdmin();
+
+    expect((await recordAttempt(admin, createEmail(), { status: 'suppressed' })).status).toBe('dead');
+    expect((await recordAttempt(admin, createEmail(), { status: 'failed' }, { retry: false })).status).toBe('dead');
+  });
+
+  it('requeues deferred emails until retryAt and gives the attempt back', async () => {
+    const { admin, update } = createAdmin();
+    const retryAt = new Date('2025-01-07T07:00:00Z');
+
+    const result = await recordAttempt(admin, createEmail({ attempts: 1 }), { status: 'deferred', retryAt });
+
+    expect(result).toEqual({ status: 'queued', nextAttemptAt: retryAt });
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'queued', attempts: 0, next_attempt_at: retryAt.toISOString() })
+    );
+  });
+});
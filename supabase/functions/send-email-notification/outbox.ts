@@ -0,0 +1,137 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { getSubject, type DeliveryResult, type EmailRequest } from './pipeline.ts';
+
+/**
+ * The email_outbox queue: send-email-notification enqueues and makes the first attempt,
+ * process-email-outbox retries failures. Rows are written with a service-role client.
+ */
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export interface OutboxEmail {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  request: EmailRequest;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+}
+
+// 2, 4, 8, 16... minutes after each failed attempt, capped at 6 hours
+const BASE_RETRY_DELAY_MS = 2 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function getNextAttemptAt(attempts: number, now = new Date()): Date {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return new Date(now.getTime() + delay);
+}
+
+/**
+ * Add an email to the queue with its first attempt already claimed ('sending').
+ * Returns the existing row instead if this user already sent that idempotency key.
+ */
+export async function enqueueEmail(
+  admin: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  emailData: EmailRequest
+): Promise<{ email: OutboxEmail; duplicate: boolean }> {
+  const { data, error } = await admin
+    .from('email_outbox')
+    .insert({
+      user_id: userId,
+      idempotency_key: idempotencyKey,
+      recipient: emailData.to,
+      subject: getSubject(emailData),
+      template: emailData.template || null,
+      request: emailData,
+      status: 'sending',
+      attempts: 1,
+    })
+    .select('*')
+    .single();
+
+  if (error?.code === '23505') {
+    const { data: existing, error: fetchError } = await admin
+      .from('email_outbox')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('idempotency_key', idempotencyKey)
+      .single();
+
+    if (fetchError) throw fetchError;
+    return { email: existing as OutboxEmail, duplicate: true };
+  }
+
+  if (error) {
+    console.error('Error enqueueing email:', error);
+    throw error;
+  }
+
+  return { email: data as OutboxEmail, duplicate: false };
+}
+
+/**
+ * Hand an email a scheduled job could not send yet, e.g. during the recipient's quiet hours,
+ * to the outbox. process-email-outbox sends it once `result.retryAt` has passed.
+ */
+export async function queueDeferredEmail(
+  admin: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  emailData: EmailRequest,
+  result: DeliveryResult
+): Promise<OutboxEmail> {
+  const { email } = await enqueueEmail(admin, userId, idempotencyKey, emailData);
+  await recordAttempt(admin, email, result);
+  return email;
+}
+
+/**
+ * Store the outcome of an attempt. Failures are scheduled for another attempt unless
+ * `retry` is false or the email is out of attempts, in which case it is 'dead'.
+ * Suppressed emails are never retried. Deferred emails go back to 'queued' until the
+ * recipient's quiet hours end, and get their attempt back.
+ */
+export async function recordAttempt(
+  admin: SupabaseClient,
+  email: OutboxEmail,
+  result: DeliveryResult,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<{ status: OutboxStatus; nextAttemptAt?: Date }> {
+  let status: OutboxStatus;
+  let nextAttemptAt: Date | undefined;
+  let attempts = email.attempts;
+
+  if (result.status === 'deferred') {
+    status = 'queued';
+    nextAttemptAt = result.retryAt;
+    attempts--;
+  } else if (result.status === 'sent') {
+    status = 'sent';
+  } else if (result.status === 'suppressed' || !retry || email.attempts >= email.max_attempts) {
+    status = 'dead';
+  } else {
+    status = 'failed';
+    nextAttemptAt = getNextAttemptAt(email.attempts);
+  }
+
+  const { error } = await admin
+    .from('email_outbox')
+    .update({
+      status,
+      attempts,
+      last_error: result.error ?? null,
+      email_log_id: result.logId ?? null,
+      ...(nextAttemptAt && { next_attempt_at: nextAttemptAt.toISOString() }),
+    })
+    .eq('id', email.id);
+
+  if (error) {
+    console.error('Error updating outbox email:', error);
+  }
+
+  return { status, nextAttemptAt };
+}
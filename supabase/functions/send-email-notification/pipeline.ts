@@ -0,0 +1,355 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { getTemplateSubject, renderTemplate, type TemplateData } from './templates/index.ts';
+import { getTransport } from './transports/index.ts';
+import { createUnsubscribeToken, getUnsubscribeUrls } from './unsubscribe.ts';
+
+/**
+ * Rate limiting, rendering, delivery and logging shared by every function that sends email.
+ * Callers pass a Supabase client that may write `email_logs` for `userId`: the user's own
+ * client for requests from the app, or a service-role client for scheduled jobs.
+ */
+
+export interface EmailRequest {
+  to: string;
+  /** Optional for templated emails, which default to the template's localized subject */
+  subject?: string;
+  template?: string;
+  data?: TemplateData;
+  html?: string;
+  text?: string;
+  /** Template language; filled in from the recipient's profile when they have an account */
+  locale?: string;
+}
+
+export interface DeliveryResult {
+  status: 'sent' | 'failed' | 'rate_limited' | 'suppressed' | 'deferred';
+  error?: string;
+  logId?: string;
+  /** For deferred emails: the end of the recipient's quiet hours */
+  retryAt?: Date;
+}
+
+/**
+ * Account emails that always go out: recipients cannot turn them off or hold them for quiet hours
+ */
+export const TRANSACTIONAL_TEMPLATES = ['welcome', 'password-reset'];
+
+interface RecipientSettings {
+  user_id: string;
+  enabled: boolean;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  time_zone: string;
+  locale: string;
+}
+
+export interface RateLimitStatus {
+  limits: {
+    plan: string;
+    maxEmailsPerHour: number;
+    maxEmailsPerDay: number;
+    maxFailuresPerDay: number;
+  };
+  usage: {
+    sentThisHour: number;
+    sentToday: number;
+    failedToday: number;
+  };
+}
+
+/**
+ * The user's limits from their plan (see email_plans) and their sends and failures over
+ * the last hour and 24 hours
+ */
+export async function getRateLimitStatus(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<RateLimitStatus> {
+  const { data, error } = await supabase.rpc('get_email_rate_limit_status', {
+    target_user_id: userId,
+  });
+
+  if (error) {
+    console.error('Error loading rate limits:', error);
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    throw new Error('No email plan found for user');
+  }
+
+  return {
+    limits: {
+      plan: row.plan,
+      maxEmailsPerHour: row.max_emails_per_hour,
+      maxEmailsPerDay: row.max_emails_per_day,
+      maxFailuresPerDay: row.max_failures_per_day,
+    },
+    usage: {
+      sentThisHour: row.sent_this_hour,
+      sentToday: row.sent_today,
+      failedToday: row.failed_today,
+    },
+  };
+}
+
+/**
+ * Only successful sends count towards the hourly and daily limits. Failed sends have their
+ * own daily budget so a bad address or a broken transport cannot retry forever.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ allowed: boolean; reason?: string }> {
+  const { limits, usage } = await getRateLimitStatus(supabase, userId);
+
+  if (usage.sentThisHour >= limits.maxEmailsPerHour) {
+    return {
+      allowed: false,
+      reason: `Hourly rate limit exceeded. Maximum ${limits.maxEmailsPerHour} emails per hour.`,
+    };
+  }
+
+  if (usage.sentToday >= limits.maxEmailsPerDay) {
+    return {
+      allowed: false,
+      reason: `Daily rate limit exceeded. Maximum ${limits.maxEmailsPerDay} emails per day.`,
+    };
+  }
+
+  if (usage.failedToday >= limits.maxFailuresPerDay) {
+    return {
+      allowed: false,
+      reason: `Daily failure budget exhausted. Maximum ${limits.maxFailuresPerDay} failed emails per day.`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+export async function logEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  emailData: EmailRequest,
+  status: 'sent' | 'failed' | 'suppressed' | 'rate_limited',
+  error?: string
+): Promise<string | undefined> {
+  const { data, error: logError } = await supabase
+    .from('email_logs')
+    .insert({
+      user_id: userId,
+      recipient: emailData.to,
+      subject: getSubject(emailData),
+      template: emailData.template || null,
+      status,
+      error_message: error || null,
+    })
+    .select('id')
+    .single();
+
+  if (logError) {
+    console.error('Error logging email:', logError);
+    return undefined;
+  }
+
+  return data.id;
+}
+
+function getLocalTime(timeZone: string, now: Date): { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+    timeZone,
+  }).formatToParts(now);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return { hour: get('hour'), minute: get('minute') };
+}
+
+function isInQuietHours(settings: RecipientSettings, now = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = settings;
+  if (start === null || end === null || start === end) return false;
+
+  const { hour } = getLocalTime(settings.time_zone, now);
+
+  // Windows such as 22 -> 7 wrap past midnight
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * When the recipient's current quiet hours end, or null outside quiet hours. Across a DST
+ * change this can be an hour early; the email is then simply deferred again.
+ */
+function getQuietHoursEnd(settings: RecipientSettings, now = new Date()): Date | null {
+  if (!isInQuietHours(settings, now)) return null;
+
+  const { hour, minute } = getLocalTime(settings.time_zone, now);
+  const hoursLeft = (settings.quiet_hours_end! - hour + 24) % 24;
+
+  const end = new Date(now);
+  end.setUTCSeconds(0, 0);
+  return new Date(end.getTime() + (hoursLeft * 60 - minute) * 60 * 1000);
+}
+
+/**
+ * Look up the recipient's preference for this template. Recipients are matched to accounts
+ * by email address, which needs the service role regardless of who is sending.
+ */
+export async function getRecipientSettings(
+  recipient: string,
+  template: string
+): Promise<RecipientSettings | null> {
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data, error } = await admin.rpc('get_email_recipient_settings', {
+    recipient_email: recipient,
+    template_name: template,
+  });
+
+  if (error) {
+    console.error('Error loading notification preferences:', error);
+    throw error;
+  }
+
+  return (data as RecipientSettings[] | null)?.[0] ?? null;
+}
+
+/**
+ * Why a templated email must not go out to this recipient at all
+ */
+function getSuppressionReason(settings: RecipientSettings, template: string): string | null {
+  if (!settings.enabled) {
+    return `Recipient has turned off '${template}' emails`;
+  }
+  return null;
+}
+
+/**
+ * The subject as given, or the template's subject in the email's locale
+ */
+export function getSubject(emailData: EmailRequest): string {
+  if (emailData.subject || !emailData.template) return emailData.subject ?? '';
+
+  try {
+    return getTemplateSubject(emailData.template, emailData.data || {}, emailData.locale);
+  } catch {
+    // Unknown template: sending fails with the real error, this only labels the log entry
+    return emailData.template;
+  }
+}
+
+/**
+ * The email's subject, HTML and text: rendered from its template in the email's locale,
+ * or as given for custom emails
+ */
+export function renderEmail(emailData: EmailRequest): { subject: string; html?: string; text?: string } {
+  if (emailData.template) {
+    const rendered = renderTemplate(emailData.template, emailData.data || {}, emailData.locale);
+    return { ...rendered, subject: emailData.subject || rendered.subject };
+  }
+
+  return { subject: emailData.subject ?? '', html: emailData.html, text: emailData.text };
+}
+
+/**
+ * Render the email and hand it to the transport selected by EMAIL_TRANSPORT
+ */
+export async function sendEmail(
+  emailData: EmailRequest,
+  headers?: Record<string, string>
+): Promise<void> {
+  const transport = getTransport();
+  const { subject, html: htmlContent, text: textContent } = renderEmail(emailData);
+
+  if (!htmlContent && !textContent) {
+    throw new Error('Either html, text, or template must be provided');
+  }
+
+  const result = await transport.send({
+    from: Deno.env.get('EMAIL_FROM') || 'noreply@tidy-prioritize.app',
+    to: emailData.to,
+    subject,
+    html: htmlContent,
+    text: textContent,
+    headers,
+  });
+
+  console.log(`Email sent successfully via ${transport.name}:`, result);
+}
+
+/**
+ * Check the user's rate limit and the recipient's notification preferences, send the email
+ * in the recipient's language and record the outcome in email_logs. Emails held back by
+ * quiet hours are not logged; they come back 'deferred' with the time to try again.
+ */
+export async function deliverEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  emailData: EmailRequest
+): Promise<DeliveryResult> {
+  // Preferences, language and unsubscribe links apply to templated emails sent to an account holder
+  const settings = emailData.template
+    ? await getRecipientSettings(emailData.to, emailData.template)
+    : null;
+
+  if (settings) {
+    emailData = {
+      ...emailData,
+      locale: emailData.locale ?? settings.locale,
+      data: { timeZone: settings.time_zone, ...emailData.data },
+    };
+  }
+
+  const rateLimitCheck = await checkRateLimit(supabase, userId);
+  if (!rateLimitCheck.allowed) {
+    const logId = await logEmail(supabase, userId, emailData, 'rate_limited', rateLimitCheck.reason);
+    return { status: 'rate_limited', error: rateLimitCheck.reason, logId };
+  }
+
+  let headers: Record<string, string> | undefined;
+
+  if (settings && emailData.template && !TRANSACTIONAL_TEMPLATES.includes(emailData.template)) {
+    const suppressionReason = getSuppressionReason(settings, emailData.template);
+    if (suppressionReason) {
+      const logId = await logEmail(supabase, userId, emailData, 'suppressed', suppressionReason);
+      return { status: 'suppressed', error: suppressionReason, logId };
+    }
+
+    const quietHoursEnd = getQuietHoursEnd(settings);
+    if (quietHoursEnd) {
+      return {
+        status: 'deferred',
+        error: `Recipient is in quiet hours for '${emailData.template}' emails`,
+        retryAt: quietHoursEnd,
+      };
+    }
+
+    const token = await createUnsubscribeToken(settings.user_id, emailData.template);
+    if (token) {
+      const { pageUrl, oneClickUrl } = getUnsubscribeUrls(token);
+      emailData = {
+        ...emailData,
+        data: { ...emailData.data, unsubscribeUrl: pageUrl ?? oneClickUrl },
+      };
+      headers = {
+        'List-Unsubscribe': `<${oneClickUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      };
+    }
+  }
+
+  try {
+    await sendEmail(emailData, headers);
+    const logId = await logEmail(supabase, userId, emailData, 'sent');
+    return { status: 'sent', logId };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const logId = await logEmail(supabase, userId, emailData, 'failed', errorMessage);
+    return { status: 'failed', error: errorMessage, logId };
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getTranslator, resolveLocale } from './i18n.ts';
+
+describe('resolveLocale', () => {
+  it('maps regional and differently cased locales to a supported language', () => {
+    expect(resolveLocale('es')).toBe('es');
+    expect(resolveLocale('de-AT')).toBe('de');
+    expect(resolveLocale('ES_mx')).toBe('es');
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLocale('fr')).toBe('en');
+    expect(resolveLocale(null)).toBe('en');
+    expect(resolveLocale(undefined)).toBe('en');
+  });
+});
+
+describe('getTranslator', () => {
+  it('fills placeholders from params', () => {
+    expect(getTranslator('de').t('task-reminder.subject', { taskName: 'Steuern' })).toBe('Erinnerung: Steuern');
+  });
+
+  it('leaves placeholders without a value as they are', () => {
+    expect(getTranslator('en').t('task-reminder.subject')).toBe('Task Reminder: {taskName}');
+  });
+
+  it('formats date-only values on the same calendar day in every locale', () => {
+    expect(getTranslator('en').formatDate('2025-01-06')).toBe('Jan 6, 2025');
+    expect(getTranslator('de').formatDate('2025-01-06')).toBe('06.01.2025');
+  });
+
+  it('shows instants in the given time zone', () => {
+    const { formatTime } = getTranslator('en');
+    expect(formatTime('2025-01-06T15:30:00Z', 'America/New_York')).toBe('10:30 AM');
+  });
+
+  it('falls back to UTC for unknown time zones', () => {
+    const { formatTime } = getTranslator('en');
+    expect(formatTime('2025-01-06T15:30:00Z', 'Not/AZone')).toBe('3:30 PM');
+  });
+
+  it('passes through values that are not ISO dates', () => {
+    expect(getTranslator('es').formatDate('tomorrow')).toBe('tomorrow');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Translations and locale-aware date formatting for email templates
+ */
+
+export type Locale = 'en' | 'es' | 'de';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es', 'de'];
+
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  de: 'de-DE',
+};
+
+const en = {
+  'common.tagline': 'Tidy Prioritize - Keep your tasks organized',
+  'common.viewTask': 'View Task',
+  'common.dueDate': 'Due Date',
+  'common.unsubscribe': 'Unsubscribe from these emails',
+  'common.priority.high': 'High priority',
+  'common.priority.medium': 'Medium priority',
+  'common.priority.low': 'Low priority',
+  'common.priority.none': 'Not prioritized yet',
+
+  'task-reminder.subject': 'Task Reminder: {taskName}',
+  'task-reminder.title': 'Task Reminder',
+  'task-reminder.footer': 'This is an automated reminder from Tidy Prioritize',
+
+  'task-assigned.subject': 'New Task Assigned: {taskName}',
+  'task-assigned.title': 'New Task Assigned',
+  'task-assigned.intro': '{assignedBy} has assigned you a new task:',
+
+  'task-completed.subject': 'Task Completed: {taskName}',
+  'task-completed.title': 'Task Completed',
+  'task-completed.completedBy': 'Completed by',
+  'task-completed.completedAt': 'Completed at',
+
+  'task-created.subject': 'Task Created: {taskName}',
+  'task-created.title': 'Task Created',
+  'task-created.intro': 'We added a task from the email you sent:',
+
+  'task-mention.subject': '{mentionedBy} mentioned you on "{taskName}"',
+  'task-mention.title': 'You Were Mentioned',
+  'task-mention.intro': '{mentionedBy} mentioned you in a comment on:',
+
+  'workspace-invite.subject': '{invitedBy} invited you to {workspaceName}',
+  'workspace-invite.title': 'Join {workspaceName}',
+  'workspace-invite.intro': '{invitedBy} invited you to work on tasks together in the {workspaceName} workspace.',
+  'workspace-invite.role': 'Your role: {role}',
+  'workspace-invite.role.admin': 'Admin',
+  'workspace-invite.role.member': 'Member',
+  'workspace-invite.role.viewer': 'Viewer',
+  'workspace-invite.button': 'Accept Invitation',
+  'workspace-invite.expires': 'This invitation expires on {date}.',
+  'workspace-invite.ignore': "If you weren't expecting this invitation, you can ignore this email.",
+
+  'welcome.subject': 'Welcome to Tidy Prioritize!',
+  'welcome.title': 'Welcome to Tidy Prioritize!',
+  'welcome.greeting': 'Hi {userName},',
+  'welcome.defaultName': 'there',
+  'welcome.intro': "Welcome to Tidy Prioritize! We're excited to help you organize and prioritize your tasks effectively.",
+  'welcome.getStarted': 'Get started by creating your first task and let our AI help you prioritize what matters most.',
+  'welcome.button': 'Get Started',
+
+  'password-reset.subject': 'Password Reset Request',
+  'password-reset.title': 'Password Reset Request',
+  'password-reset.introHtml': 'You requested to reset your password. Click the button below to proceed:',
+  'password-reset.introText': 'You requested to reset your password. Click the link below to proceed:',
+  'password-reset.button': 'Reset Password',
+  'password-reset.noUrl': 'No reset URL provided',
+  'password-reset.securityNotice': 'Security Notice:',
+  'password-reset.expires': "This link will expire in {expiresIn}. If you didn't request this reset, please ignore this email.",
+  'password-reset.defaultExpiry': '1 hour',
+
+  'daily-digest.subject': 'Your tasks for {date}',
+  'daily-digest.title': 'Your Day',
+  'daily-digest.nothingToday': 'Nothing is scheduled for today.',
+  'daily-digest.overdue': 'Overdue',
+  'daily-digest.due': 'due {time}',
+  'daily-digest.wasDue': 'was due {date}',
+  'daily-digest.open': 'Open Tidy Prioritize',
+  'daily-digest.footer': 'You are receiving this daily digest because you turned it on in your settings.',
+};
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  'common.tagline': 'Tidy Prioritize - Mantén tus tareas organizadas',
+  'common.viewTask': 'Ver tarea',
+  'common.dueDate': 'Fecha límite',
+  'common.unsubscribe': 'Darse de baja de estos correos',
+  'common.priority.high': 'Prioridad alta',
+  'common.priority.medium': 'Prioridad media',
+  'common.priority.low': 'Prioridad baja',
+  'common.priority.none': 'Sin priorizar',
+
+  'task-reminder.subject': 'Recordatorio de tarea: {taskName}',
+  'task-reminder.title': 'Recordatorio de tarea',
+  'task-reminder.footer': 'Este es un recordatorio automático de Tidy Prioritize',
+
+  'task-assigned.subject': 'Nueva tarea asignada: {taskName}',
+  'task-assigned.title': 'Nueva tarea asignada',
+  'task-assigned.intro': '{assignedBy} te ha asignado una nueva tarea:',
+
+  'task-completed.subject': 'Tarea completada: {taskName}',
+  'task-completed.title': 'Tarea completada',
+  'task-completed.completedBy': 'Completada por',
+  'task-completed.completedAt': 'Completada el',
+
+  'task-created.subject': 'Tarea creada: {taskName}',
+  'task-created.title': 'Tarea creada',
+  'task-created.intro': 'Añadimos una tarea a partir del correo que enviaste:',
+
+  'task-mention.subject': '{mentionedBy} te mencionó en "{taskName}"',
+  'task-mention.title': 'Te mencionaron',
+  'task-mention.intro': '{mentionedBy} te mencionó en un comentario sobre:',
+
+  'workspace-invite.subject': '{invitedBy} te invitó a {workspaceName}',
+  'workspace-invite.title': 'Únete a {workspaceName}',
+  'workspace-invite.intro': '{invitedBy} te invitó a trabajar en tareas juntos en el espacio de trabajo {workspaceName}.',
+  'workspace-invite.role': 'Tu rol: {role}',
+  'workspace-invite.role.admin': 'Administrador',
+  'workspace-invite.role.member': 'Miembro',
+  'workspace-invite.role.viewer': 'Lector',
+  'workspace-invite.button': 'Aceptar invitación',
+  'workspace-invite.expires': 'Esta invitación caduca el {date}.',
+  'workspace-invite.ignore': 'Si no esperabas esta invitación, puedes ignorar este correo.',
+
+  'welcome.subject': '¡Bienvenido a Tidy Prioritize!',
+  'welcome.title': '¡Bienvenido a Tidy Prioritize!',
+  'welcome.greeting': 'Hola, {userName}:',
+  'welcome.defaultName': 'qué tal',
+  'welcome.intro': '¡Bienvenido a Tidy Prioritize! Nos alegra ayudarte a organizar y priorizar tus tareas de forma eficaz.',
+  'welcome.getStarted': 'Empieza creando tu primera tarea y deja que nuestra IA te ayude a priorizar lo que más importa.',
+  'welcome.button': 'Empezar',
+
+  'password-reset.subject': 'Solicitud de restablecimiento de contraseña',
+  'password-reset.title': 'Restablecer contraseña',
+  'password-reset.introHtml': 'Has solicitado restablecer tu contraseña. Haz clic en el botón para continuar:',
+  'password-reset.introText': 'Has solicitado restablecer tu contraseña. Abre el siguiente enlace para continuar:',
+  'password-reset.button': 'Restablecer contraseña',
+  'password-reset.noUrl': 'No se proporcionó un enlace de restablecimiento',
+  'password-reset.securityNotice': 'Aviso de seguridad:',
+  'password-reset.expires': 'Este enlace caduca en {expiresIn}. Si no solicitaste este cambio, ignora este correo.',
+  'password-reset.defaultExpiry': '1 hora',
+
+  'daily-digest.subject': 'Tus tareas para el {date}',
+  'daily-digest.title': 'Tu día',
+  'daily-digest.nothingToday': 'No hay nada programado para hoy.',
+  'daily-digest.overdue': 'Vencidas',
+  'daily-digest.due': 'vence a las {time}',
+  'daily-digest.wasDue': 'venció el {date}',
+  'daily-digest.open': 'Abrir Tidy Prioritize',
+  'daily-digest.footer': 'Recibes este resumen diario porque lo activaste en tu configuración.',
+};
+
+const de: Record<MessageKey, string> = {
+  'common.tagline': 'Tidy Prioritize - Behalte deine Aufgaben im Griff',
+  'common.viewTask': 'Aufgabe ansehen',
+  'common.dueDate': 'Fällig am',
+  'common.unsubscribe': 'Diese E-Mails abbestellen',
+  'common.priority.high': 'Hohe Priorität',
+  'common.priority.medium': 'Mittlere Priorität',
+  'common.priority.low': 'Niedrige Priorität',
+  'common.priority.none': 'Noch nicht priorisiert',
+
+  'task-reminder.subject': 'Erinnerung: {taskName}',
+  'task-reminder.title': 'Aufgabenerinnerung',
+  'task-reminder.footer': 'Dies ist eine automatische Erinnerung von Tidy Prioritize',
+
+  'task-assigned.subject': 'Neue Aufgabe zugewiesen: {taskName}',
+  'task-assigned.title': 'Neue Aufgabe zugewiesen',
+  'task-assigned.intro': '{assignedBy} hat dir eine neue Aufgabe zugewiesen:',
+
+  'task-completed.subject': 'Aufgabe erledigt: {taskName}',
+  'task-completed.title': 'Aufgabe erledigt',
+  'task-completed.completedBy': 'Erledigt von',
+  'task-completed.completedAt': 'Erledigt am',
+
+  'task-created.subject': 'Aufgabe erstellt: {taskName}',
+  'task-created.title': 'Aufgabe erstellt',
+  'task-created.intro': 'Wir haben aus deiner E-Mail eine Aufgabe erstellt:',
+
+  'task-mention.subject': '{mentionedBy} hat dich bei „{taskName}“ erwähnt',
+  'task-mention.title': 'Du wurdest erwähnt',
+  'task-mention.intro': '{mentionedBy} hat dich in einem Kommentar erwähnt zu:',
+
+  'workspace-invite.subject': '{invitedBy} hat dich zu {workspaceName} eingeladen',
+  'workspace-invite.title': 'Tritt {workspaceName} bei',
+  'workspace-invite.intro': '{invitedBy} hat dich eingeladen, im Workspace {workspaceName} gemeinsam an Aufgaben zu arbeiten.',
+  'workspace-invite.role': 'Deine Rolle: {role}',
+  'workspace-invite.role.admin': 'Admin',
+  'workspace-invite.role.member': 'Mitglied',
+  'workspace-invite.role.viewer': 'Betrachter',
+  'workspace-invite.button': 'Einladung annehmen',
+  'workspace-invite.expires': 'Diese Einladung läuft am {date} ab.',
+  'workspace-invite.ignore': 'Wenn du diese Einladung nicht erwartet hast, kannst du diese E-Mail ignorieren.',
+
+  'welcome.subject': 'Willkommen bei Tidy Prioritize!',
+  'welcome.title': 'Willkommen bei Tidy Prioritize!',
+  'welcome.greeting': 'Hallo {userName},',
+  'welcome.defaultName': 'zusammen',
+  'welcome.intro': 'Willkommen bei Tidy Prioritize! Wir freuen uns, dir beim Organisieren und Priorisieren deiner Aufgaben zu helfen.',
+  'welcome.getStarted': 'Lege deine erste Aufgabe an und lass dir von unserer KI helfen, das Wichtigste zuerst zu erledigen.',
+  'welcome.button': 'Loslegen',
+
+  'password-reset.subject': 'Passwort zurücksetzen',
+  'password-reset.title': 'Passwort zurücksetzen',
+  'password-reset.introHtml': 'Du hast angefordert, dein Passwort zurückzusetzen. Klicke auf die Schaltfläche, um fortzufahren:',
+  'password-reset.introText': 'Du hast angefordert, dein Passwort zurückzusetzen. Öffne den folgenden Link, um fortzufahren:',
+  'password-reset.button': 'Passwort zurücksetzen',
+  'password-reset.noUrl': 'Kein Link zum Zurücksetzen angegeben',
+  'password-reset.securityNotice': 'Sicherheitshinweis:',
+  'password-reset.expires': 'Dieser Link läuft in {expiresIn} ab. Falls du das nicht angefordert hast, ignoriere diese E-Mail.',
+  'password-reset.defaultExpiry': '1 Stunde',
+
+  'daily-digest.subject': 'Deine Aufgaben für {date}',
+  'daily-digest.title': 'Dein Tag',
+  'daily-digest.nothingToday': 'Für heute ist nichts geplant.',
+  'daily-digest.overdue': 'Überfällig',
+  'daily-digest.due': 'fällig um {time}',
+  'daily-digest.wasDue': 'war fällig am {date}',
+  'daily-digest.open': 'Tidy Prioritize öffnen',
+  'daily-digest.footer': 'Du erhältst diese tägliche Übersicht, weil du sie in deinen Einstellungen aktiviert hast.',
+};
+
+const messages: Record<Locale, Record<MessageKey, string>> = { en, es, de };
+
+/**
+ * Map a profile or request locale such as 'es' or 'de-AT' to a supported one, defaulting to English
+ */
+export function resolveLocale(locale?: string | null): Locale {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.includes(language as Locale) ? (language as Locale) : 'en';
+}
+
+export interface Translator {
+  locale: Locale;
+  /** Translate a message, filling `{name}` placeholders from `params` */
+  t: (key: MessageKey, params?: Record<string, unknown>) => string;
+  /** A calendar date, from a 'YYYY-MM-DD' string or an ISO timestamp */
+  formatDate: (value: string, options?: Intl.DateTimeFormatOptions) => string;
+  /** An instant, shown in `timeZone` */
+  formatDateTime: (value: string, timeZone?: string) => string;
+  /** Just the time of day of an instant, shown in `timeZone` */
+  formatTime: (value: string, timeZone?: string) => string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T|$)/;
+
+/**
+ * Anything other than an ISO 8601 date or timestamp, e.g. an already formatted string,
+ * is passed through as given
+ */
+function formatWith(value: string, intlLocale: string, options: Intl.DateTimeFormatOptions): string {
+  if (!ISO_DATE.test(value)) return value;
+
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) return value;
+
+  try {
+    return new Intl.DateTimeFormat(intlLocale, options).format(date);
+  } catch {
+    // Unknown time zone names throw a RangeError
+    return new Intl.DateTimeFormat(intlLocale, { ...options, timeZone: 'UTC' }).format(date);
+  }
+}
+
+export function getTranslator(locale?: string | null): Translator {
+  const resolved = resolveLocale(locale);
+  const intlLocale = INTL_LOCALES[resolved];
+
+  return {
+    locale: resolved,
+    t: (key, params = {}) =>
+      messages[resolved][key].replace(/\{(\w+)\}/g, (match, name) =>
+        params[name] === undefined || params[name] === null ? match : String(params[name])
+      ),
+    // Date-only values are midnight UTC, so format them in UTC to keep the same day
+    formatDate: (value, options = { dateStyle: 'medium' }) =>
+      formatWith(value, intlLocale, {
+        ...options,
+        timeZone: DATE_ONLY.test(value) ? 'UTC' : options.timeZone,
+      }),
+    // dateStyle cannot be combined with timeZoneName, so spell the fields out
+    formatDateTime: (value, timeZone) =>
+      formatWith(value, intlLocale, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: timeZone || 'UTC',
+        timeZoneName: 'short',
+      }),
+    formatTime: (value, timeZone) =>
+      formatWith(value, intlLocale, {
+        timeStyle: 'short',
+        timeZone: timeZone || 'UTC',
+      } as Intl.DateTimeFormatOptions),
+  };
+}
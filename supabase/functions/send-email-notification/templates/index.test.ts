@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getTemplateSubject, renderTemplate } from './index.ts';
+
+describe('renderTemplate', () => {
+  it('renders in the requested language', () => {
+    const rendered = renderTemplate('task-assigned', { taskName: 'Informe', assignedBy: 'Ana' }, 'es');
+
+    expect(rendered.subject).toBe('Nueva tarea asignada: Informe');
+    expect(rendered.html).toContain('lang="es"');
+    expect(rendered.html).toContain('Ana te ha asignado una nueva tarea:');
+  });
+
+  it('falls back to English for unsupported locales', () => {
+    expect(renderTemplate('task-reminder', { taskName: 'Taxes' }, 'fr').subject).toBe('Task Reminder: Taxes');
+  });
+
+  it('escapes template data in the HTML body', () => {
+    const rendered = renderTemplate('task-assigned', {
+      taskName: '<script>alert(1)</script>',
+      assignedBy: 'Mallory <img src=x onerror=alert(1)>',
+      description: 'Fish & "chips"',
+      url: 'https://app.example.com/?a=1&b="2"',
+    });
+
+    expect(rendered.html).not.toContain('<script>');
+    expect(rendered.html).not.toContain('<img');
+    expect(rendered.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(rendered.html).toContain('Fish &amp; &quot;chips&quot;');
+    expect(rendered.html).toContain('href="https://app.example.com/?a=1&amp;b=&quot;2&quot;"');
+  });
+
+  it('adds an escaped, translated unsubscribe link when one is provided', () => {
+    const rendered = renderTemplate(
+      'task-reminder',
+      { taskName: 'Steuern', unsubscribeUrl: 'https://app.example.com/unsubscribe?token=a&b' },
+      'de'
+    );
+
+    expect(rendered.html).toContain('href="https://app.example.com/unsubscribe?token=a&amp;b"');
+    expect(rendered.html).toContain('Diese E-Mails abbestellen');
+    expect(rendered.text).toContain('Diese E-Mails abbestellen: https://app.example.com/unsubscribe?token=a&b');
+  });
+
+  it('throws for unknown templates', () => {
+    expect(() => renderTemplate('missing', {})).toThrow("Template 'missing' not found");
+  });
+});
+
+describe('getTemplateSubject', () => {
+  it('formats the digest date for the locale', () => {
+    expect(getTemplateSubject('daily-digest', { date: '2025-01-06' }, 'en')).toBe('Your tasks for Monday, January 6');
+    expect(getTemplateSubject('daily-digest', { date: '2025-01-06' }, 'de')).toBe('Deine Aufgaben für Montag, 6. Januar');
+  });
+});
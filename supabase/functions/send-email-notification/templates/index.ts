@@ -1,42 +1,108 @@
+import { getTranslator, type MessageKey, type Translator } from './i18n.ts';
+
 export interface TemplateData {
   [key: string]: any;
 }
 
 export interface RenderedTemplate {
+  subject: string;
   html: string;
   text: string;
 }
 
+type Template = (data: TemplateData, i18n: Translator) => Omit<RenderedTemplate, 'subject'>;
+
+const templates: Record<string, Template> = {
+  'task-reminder': taskReminderTemplate,
+  'task-assigned': taskAssignedTemplate,
+  'task-completed': taskCompletedTemplate,
+  'task-created': taskCreatedTemplate,
+  'task-mention': taskMentionTemplate,
+  'workspace-invite': workspaceInviteTemplate,
+  'welcome': welcomeTemplate,
+  'password-reset': passwordResetTemplate,
+  'daily-digest': dailyDigestTemplate,
+};
+
 /**
- * Renders an email template with the provided data
+ * Renders an email template with the provided data, in `locale` (English by default)
  */
-export function renderTemplate(templateName: string, data: TemplateData): RenderedTemplate {
-  const templates: Record<string, (data: TemplateData) => RenderedTemplate> = {
-    'task-reminder': taskReminderTemplate,
-    'task-assigned': taskAssignedTemplate,
-    'task-completed': taskCompletedTemplate,
-    'welcome': welcomeTemplate,
-    'password-reset': passwordResetTemplate,
-  };
-
+export function renderTemplate(templateName: string, data: TemplateData, locale?: string | null): RenderedTemplate {
   const template = templates[templateName];
   if (!template) {
     throw new Error(`Template '${templateName}' not found`);
   }
 
-  return template(data);
+  const i18n = getTranslator(locale);
+
+  return {
+    subject: getTemplateSubject(templateName, data, locale),
+    ...withUnsubscribeLink(template(data, i18n), i18n, data.unsubscribeUrl),
+  };
+}
+
+/**
+ * The template's default subject line in `locale`
+ */
+export function getTemplateSubject(templateName: string, data: TemplateData, locale?: string | null): string {
+  if (!templates[templateName]) {
+    throw new Error(`Template '${templateName}' not found`);
+  }
+
+  const i18n = getTranslator(locale);
+  const params = templateName === 'daily-digest' && data.date
+    ? { ...data, date: formatDigestDate(data.date, i18n) }
+    : data;
+
+  return i18n.t(`${templateName}.subject` as MessageKey, params);
+}
+
+/**
+ * Append the recipient's signed unsubscribe link, when the pipeline provided one
+ */
+function withUnsubscribeLink(
+  rendered: Omit<RenderedTemplate, 'subject'>,
+  i18n: Translator,
+  unsubscribeUrl?: string
+): Omit<RenderedTemplate, 'subject'> {
+  if (!unsubscribeUrl) return rendered;
+
+  const footer = `
+  <div style="max-width: 600px; margin: 0 auto; padding: 0 20px 20px; text-align: center; color: #6b7280; font-size: 12px;">
+    <a href="${escapeHtml(unsubscribeUrl)}" style="color: #6b7280;">${i18n.t('common.unsubscribe')}</a>
+  </div>
+`;
+
+  return {
+    html: rendered.html.includes('</body>')
+      ? rendered.html.replace('</body>', `${footer}</body>`)
+      : rendered.html + footer,
+    text: `${rendered.text.trimEnd()}\n${i18n.t('common.unsubscribe')}: ${unsubscribeUrl}\n`,
+  };
+}
+
+/**
+ * Due date shown in emails. An exact `dueAt` instant is rendered in the recipient's
+ * `timeZone`; otherwise the `dueDate` calendar date is formatted for the locale.
+ */
+function formatDue(data: TemplateData, i18n: Translator): string | undefined {
+  const { dueAt, dueDate, timeZone } = data;
+  if (dueAt) return i18n.formatDateTime(dueAt, timeZone);
+  return dueDate ? i18n.formatDate(dueDate) : undefined;
 }
 
 /**
  * Task Reminder Template
  */
-function taskReminderTemplate(data: TemplateData): RenderedTemplate {
-  const { taskName, dueDate, description, url } = data;
+function taskReminderTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { taskName, description, url } = data;
+  const dueDate = formatDue(data, i18n);
 
   return {
     html: `
 <!DOCTYPE html>
-<html>
+<html lang="${i18n.locale}">
 <head>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
@@ -52,31 +118,31 @@ function taskReminderTemplate(data: TemplateData): RenderedTemplate {
 <body>
   <div class="container">
     <div class="header">
-      <h1>Task Reminder</h1>
+      <h1>${t('task-reminder.title')}</h1>
     </div>
     <div class="content">
-      <div class="task-name">${taskName}</div>
-      ${description ? `<p>${description}</p>` : ''}
-      ${dueDate ? `<p>Due Date: <span class="due-date">${dueDate}</span></p>` : ''}
-      ${url ? `<a href="${url}" class="button">View Task</a>` : ''}
+      <div class="task-name">${escapeHtml(taskName ?? '')}</div>
+      ${description ? `<p>${escapeHtml(description)}</p>` : ''}
+      ${dueDate ? `<p>${t('common.dueDate')}: <span class="due-date">${escapeHtml(dueDate)}</span></p>` : ''}
+      ${url ? `<a href="${escapeHtml(url)}" class="button">${t('common.viewTask')}</a>` : ''}
     </div>
     <div class="footer">
-      <p>This is an automated reminder from Tidy Prioritize</p>
+      <p>${t('task-reminder.footer')}</p>
     </div>
   </div>
 </body>
 </html>
     `,
     text: `
-Task Reminder
+${t('task-reminder.title')}
 
 ${taskName}
 ${description ? `\n${description}\n` : ''}
-${dueDate ? `Due Date: ${dueDate}\n` : ''}
-${url ? `\nView Task: ${url}` : ''}
+${dueDate ? `${t('common.dueDate')}: ${dueDate}\n` : ''}
+${url ? `\n${t('common.viewTask')}: ${url}` : ''}
 
 ---
-This is an automated reminder from Tidy Prioritize
+${t('task-reminder.footer')}
     `,
   };
 }
@@ -84,13 +150,15 @@ This is an automated reminder from Tidy Prioritize
 /**
  * Task Assigned Template
  */
-function taskAssignedTemplate(data: TemplateData): RenderedTemplate {
-  const { taskName, assignedBy, description, dueDate, url } = data;
+function taskAssignedTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { taskName, assignedBy, description, url } = data;
+  const dueDate = formatDue(data, i18n);
 
   return {
     html: `
 <!DOCTYPE html>
-<html>
+<html lang="${i18n.locale}">
 <head>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
@@ -105,34 +173,34 @@ function taskAssignedTemplate(data: TemplateData): RenderedTemplate {
 <body>
   <div class="container">
     <div class="header">
-      <h1>New Task Assigned</h1>
+      <h1>${t('task-assigned.title')}</h1>
     </div>
     <div class="content">
-      <p>${assignedBy} has assigned you a new task:</p>
-      <div class="task-name">${taskName}</div>
-      ${description ? `<p>${description}</p>` : ''}
-      ${dueDate ? `<p>Due Date: ${dueDate}</p>` : ''}
-      ${url ? `<a href="${url}" class="button">View Task</a>` : ''}
+      <p>${t('task-assigned.intro', { assignedBy: escapeHtml(assignedBy ?? '') })}</p>
+      <div class="task-name">${escapeHtml(taskName ?? '')}</div>
+      ${description ? `<p>${escapeHtml(description)}</p>` : ''}
+      ${dueDate ? `<p>${t('common.dueDate')}: ${escapeHtml(dueDate)}</p>` : ''}
+      ${url ? `<a href="${escapeHtml(url)}" class="button">${t('common.viewTask')}</a>` : ''}
     </div>
     <div class="footer">
-      <p>Tidy Prioritize - Keep your tasks organized</p>
+      <p>${t('common.tagline')}</p>
     </div>
   </div>
 </body>
 </html>
     `,
     text: `
-New Task Assigned
+${t('task-assigned.title')}
 
-${assignedBy} has assigned you a new task:
+${t('task-assigned.intro', { assignedBy })}
 
 ${taskName}
 ${description ? `\n${description}\n` : ''}
-${dueDate ? `Due Date: ${dueDate}\n` : ''}
-${url ? `\nView Task: ${url}` : ''}
+${dueDate ? `${t('common.dueDate')}: ${dueDate}\n` : ''}
+${url ? `\n${t('common.viewTask')}: ${url}` : ''}
 
 ---
-Tidy Prioritize - Keep your tasks organized
+${t('common.tagline')}
     `,
   };
 }
@@ -140,13 +208,15 @@ Tidy Prioritize - Keep your tasks organized
 /**
  * Task Completed Template
  */
-function taskCompletedTemplate(data: TemplateData): RenderedTemplate {
-  const { taskName, completedBy, completedAt } = data;
+function taskCompletedTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { taskName, completedBy, timeZone } = data;
+  const completedAt = data.completedAt ? i18n.formatDateTime(data.completedAt, timeZone) : undefined;
 
   return {
     html: `
 <!DOCTYPE html>
-<html>
+<html lang="${i18n.locale}">
 <head>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
@@ -160,30 +230,224 @@ function taskCompletedTemplate(data: TemplateData): RenderedTemplate {
 <body>
   <div class="container">
     <div class="header">
-      <h1>✓ Task Completed</h1>
+      <h1>✓ ${t('task-completed.title')}</h1>
     </div>
     <div class="content">
-      <div class="task-name">${taskName}</div>
-      <p>Completed by: ${completedBy}</p>
-      ${completedAt ? `<p>Completed at: ${completedAt}</p>` : ''}
+      <div class="task-name">${escapeHtml(taskName ?? '')}</div>
+      <p>${t('task-completed.completedBy')}: ${escapeHtml(completedBy ?? '')}</p>
+      ${completedAt ? `<p>${t('task-completed.completedAt')}: ${escapeHtml(completedAt)}</p>` : ''}
     </div>
     <div class="footer">
-      <p>Tidy Prioritize - Keep your tasks organized</p>
+      <p>${t('common.tagline')}</p>
     </div>
   </div>
 </body>
 </html>
     `,
     text: `
-✓ Task Completed
+✓ ${t('task-completed.title')}
 
 ${taskName}
 
-Completed by: ${completedBy}
-${completedAt ? `Completed at: ${completedAt}` : ''}
+${t('task-completed.completedBy')}: ${completedBy}
+${completedAt ? `${t('task-completed.completedAt')}: ${completedAt}` : ''}
+
+---
+${t('common.tagline')}
+    `,
+  };
+}
+
+/**
+ * Escape text for HTML. Every value from template data goes through it: much of it is
+ * written by someone other than the recipient, e.g. an assigner, an inbound email or a comment.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Confirmation for a task created from an email sent to the user's inbound address.
+ * `priority` and `priorityReasoning` are missing when prioritization failed.
+ */
+function taskCreatedTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { taskName, description, priority, priorityReasoning, url } = data;
+  const priorityLabel = t(`common.priority.${priority ?? 'none'}` as MessageKey);
+
+  return {
+    html: `
+<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+    .content { background-color: #f9fafb; padding: 20px; margin-top: 20px; border-radius: 8px; }
+    .task-name { font-size: 20px; font-weight: bold; margin-bottom: 10px; color: #4F46E5; }
+    .description { white-space: pre-wrap; }
+    .reasoning { color: #6b7280; font-size: 14px; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+    .footer { margin-top: 30px; text-align: center; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${t('task-created.title')}</h1>
+    </div>
+    <div class="content">
+      <p>${t('task-created.intro')}</p>
+      <div class="task-name">${escapeHtml(taskName)}</div>
+      ${description ? `<p class="description">${escapeHtml(description)}</p>` : ''}
+      <p><strong>${priorityLabel}</strong></p>
+      ${priorityReasoning ? `<p class="reasoning">${escapeHtml(priorityReasoning)}</p>` : ''}
+      ${url ? `<a href="${escapeHtml(url)}" class="button">${t('common.viewTask')}</a>` : ''}
+    </div>
+    <div class="footer">
+      <p>${t('common.tagline')}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `,
+    text: `
+${t('task-created.title')}
+
+${t('task-created.intro')}
+
+${taskName}
+${description ? `\n${description}\n` : ''}
+${priorityLabel}${priorityReasoning ? `\n${priorityReasoning}` : ''}
+${url ? `\n${t('common.viewTask')}: ${url}` : ''}
 
 ---
-Tidy Prioritize - Keep your tasks organized
+${t('common.tagline')}
+    `,
+  };
+}
+
+/**
+ * Someone @mentioned the recipient in a comment on a task
+ */
+function taskMentionTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { taskName, comment, url } = data;
+  const intro = t('task-mention.intro', { mentionedBy: data.mentionedBy });
+
+  return {
+    html: `
+<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+    .content { background-color: #f9fafb; padding: 20px; margin-top: 20px; border-radius: 8px; }
+    .task-name { font-size: 20px; font-weight: bold; margin-bottom: 10px; color: #4F46E5; }
+    .comment { white-space: pre-wrap; border-left: 4px solid #4F46E5; padding: 8px 12px; background-color: white; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+    .footer { margin-top: 30px; text-align: center; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${t('task-mention.title')}</h1>
+    </div>
+    <div class="content">
+      <p>${escapeHtml(intro)}</p>
+      <div class="task-name">${escapeHtml(taskName ?? '')}</div>
+      <p class="comment">${escapeHtml(comment ?? '')}</p>
+      ${url ? `<a href="${escapeHtml(url)}" class="button">${t('common.viewTask')}</a>` : ''}
+    </div>
+    <div class="footer">
+      <p>${t('common.tagline')}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `,
+    text: `
+${t('task-mention.title')}
+
+${intro}
+
+${taskName}
+
+${comment}
+${url ? `\n${t('common.viewTask')}: ${url}` : ''}
+
+---
+${t('common.tagline')}
+    `,
+  };
+}
+
+/**
+ * Invitation to join a workspace. `acceptUrl` leads to the app's accept page; `expiresAt`
+ * is an ISO 8601 timestamp.
+ */
+function workspaceInviteTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { acceptUrl, expiresAt } = data;
+  const params = { workspaceName: data.workspaceName, invitedBy: data.invitedBy };
+  const htmlParams = { workspaceName: escapeHtml(data.workspaceName ?? ''), invitedBy: escapeHtml(data.invitedBy ?? '') };
+  const role = t('workspace-invite.role', { role: t(`workspace-invite.role.${data.role ?? 'member'}` as MessageKey) });
+  const expires = expiresAt ? t('workspace-invite.expires', { date: i18n.formatDate(expiresAt, { dateStyle: 'long', timeZone: data.timeZone }) }) : '';
+
+  return {
+    html: `
+<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #4F46E5; color: white; padding: 30px; text-align: center; }
+    .content { padding: 30px 20px; }
+    .role { font-weight: bold; }
+    .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+    .notice { color: #6b7280; font-size: 14px; margin-top: 20px; }
+    .footer { margin-top: 30px; text-align: center; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${t('workspace-invite.title', htmlParams)}</h1>
+    </div>
+    <div class="content">
+      <p>${t('workspace-invite.intro', htmlParams)}</p>
+      <p class="role">${role}</p>
+      ${acceptUrl ? `<a href="${escapeHtml(acceptUrl)}" class="button">${t('workspace-invite.button')}</a>` : ''}
+      <p class="notice">${expires} ${t('workspace-invite.ignore')}</p>
+    </div>
+    <div class="footer">
+      <p>${t('common.tagline')}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `,
+    text: `
+${t('workspace-invite.title', params)}
+
+${t('workspace-invite.intro', params)}
+
+${role}
+
+${acceptUrl ? `${t('workspace-invite.button')}: ${acceptUrl}\n` : ''}
+${expires} ${t('workspace-invite.ignore')}
+
+---
+${t('common.tagline')}
     `,
   };
 }
@@ -191,13 +455,15 @@ Tidy Prioritize - Keep your tasks organized
 /**
  * Welcome Template
  */
-function welcomeTemplate(data: TemplateData): RenderedTemplate {
-  const { userName, loginUrl } = data;
+function welcomeTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { loginUrl } = data;
+  const greeting = t('welcome.greeting', { userName: data.userName || t('welcome.defaultName') });
 
   return {
     html: `
 <!DOCTYPE html>
-<html>
+<html lang="${i18n.locale}">
 <head>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
@@ -211,34 +477,34 @@ function welcomeTemplate(data: TemplateData): RenderedTemplate {
 <body>
   <div class="container">
     <div class="header">
-      <h1>Welcome to Tidy Prioritize!</h1>
+      <h1>${t('welcome.title')}</h1>
     </div>
     <div class="content">
-      <p>Hi ${userName || 'there'},</p>
-      <p>Welcome to Tidy Prioritize! We're excited to help you organize and prioritize your tasks effectively.</p>
-      <p>Get started by creating your first task and let our AI help you prioritize what matters most.</p>
-      ${loginUrl ? `<a href="${loginUrl}" class="button">Get Started</a>` : ''}
+      <p>${escapeHtml(greeting)}</p>
+      <p>${t('welcome.intro')}</p>
+      <p>${t('welcome.getStarted')}</p>
+      ${loginUrl ? `<a href="${escapeHtml(loginUrl)}" class="button">${t('welcome.button')}</a>` : ''}
     </div>
     <div class="footer">
-      <p>Tidy Prioritize - Keep your tasks organized</p>
+      <p>${t('common.tagline')}</p>
     </div>
   </div>
 </body>
 </html>
     `,
     text: `
-Welcome to Tidy Prioritize!
+${t('welcome.title')}
 
-Hi ${userName || 'there'},
+${greeting}
 
-Welcome to Tidy Prioritize! We're excited to help you organize and prioritize your tasks effectively.
+${t('welcome.intro')}
 
-Get started by creating your first task and let our AI help you prioritize what matters most.
+${t('welcome.getStarted')}
 
-${loginUrl ? `Get Started: ${loginUrl}\n` : ''}
+${loginUrl ? `${t('welcome.button')}: ${loginUrl}\n` : ''}
 
 ---
-Tidy Prioritize - Keep your tasks organized
+${t('common.tagline')}
     `,
   };
 }
@@ -246,13 +512,17 @@ Tidy Prioritize - Keep your tasks organized
 /**
  * Password Reset Template
  */
-function passwordResetTemplate(data: TemplateData): RenderedTemplate {
-  const { resetUrl, expiresIn } = data;
+function passwordResetTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { resetUrl } = data;
+  const expires = t('password-reset.expires', {
+    expiresIn: data.expiresIn || t('password-reset.defaultExpiry'),
+  });
 
   return {
     html: `
 <!DOCTYPE html>
-<html>
+<html lang="${i18n.locale}">
 <head>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
@@ -267,33 +537,151 @@ function passwordResetTemplate(data: TemplateData): RenderedTemplate {
 <body>
   <div class="container">
     <div class="header">
-      <h1>Password Reset Request</h1>
+      <h1>${t('password-reset.title')}</h1>
     </div>
     <div class="content">
-      <p>You requested to reset your password. Click the button below to proceed:</p>
-      ${resetUrl ? `<a href="${resetUrl}" class="button">Reset Password</a>` : ''}
+      <p>${t('password-reset.introHtml')}</p>
+      ${resetUrl ? `<a href="${escapeHtml(resetUrl)}" class="button">${t('password-reset.button')}</a>` : ''}
       <div class="warning">
-        <strong>Security Notice:</strong> This link will expire in ${expiresIn || '1 hour'}. If you didn't request this reset, please ignore this email.
+        <strong>${t('password-reset.securityNotice')}</strong> ${escapeHtml(expires)}
       </div>
     </div>
     <div class="footer">
-      <p>Tidy Prioritize - Keep your tasks organized</p>
+      <p>${t('common.tagline')}</p>
     </div>
   </div>
 </body>
 </html>
     `,
     text: `
-Password Reset Request
+${t('password-reset.title')}
 
-You requested to reset your password. Click the link below to proceed:
+${t('password-reset.introText')}
 
-${resetUrl || 'No reset URL provided'}
+${resetUrl || t('password-reset.noUrl')}
+
+${t('password-reset.securityNotice').toUpperCase()} ${expires}
+
+---
+${t('common.tagline')}
+    `,
+  };
+}
+
+interface DigestTask {
+  name: string;
+  priority: string | null;
+  priorityReasoning?: string | null;
+  dueDate?: string | null;
+  dueAt?: string | null;
+}
+
+const DIGEST_PRIORITY_GROUPS: { priority: string | null; label: MessageKey; color: string }[] = [
+  { priority: 'high', label: 'common.priority.high', color: '#dc2626' },
+  { priority: 'medium', label: 'common.priority.medium', color: '#d97706' },
+  { priority: 'low', label: 'common.priority.low', color: '#059669' },
+  { priority: null, label: 'common.priority.none', color: '#6b7280' },
+];
+
+/**
+ * The digest's day, e.g. "Friday, October 24", from its 'YYYY-MM-DD' date
+ */
+function formatDigestDate(date: string, i18n: Translator): string {
+  return i18n.formatDate(date, { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Daily Digest Template
+ *
+ * `date` is the digest's day as 'YYYY-MM-DD'. `tasks` are that day's open tasks and
+ * `overdue` the open tasks from earlier days, both as DigestTask objects. Today's tasks
+ * are grouped by priority.
+ */
+function dailyDigestTemplate(data: TemplateData, i18n: Translator) {
+  const { t } = i18n;
+  const { timeZone, url } = data;
+  const date = data.date ? formatDigestDate(data.date, i18n) : undefined;
+  const tasks: DigestTask[] = data.tasks || [];
+  const overdue: DigestTask[] = data.overdue || [];
+
+  const groups = DIGEST_PRIORITY_GROUPS
+    .map((group) => ({
+      ...group,
+      tasks: tasks.filter((task) =>
+        group.priority ? task.priority === group.priority : !['high', 'medium', 'low'].includes(task.priority ?? '')
+      ),
+    }))
+    .filter((group) => group.tasks.length > 0);
+
+  const describeDue = (task: DigestTask) =>
+    task.dueAt ? ` (${t('daily-digest.due', { time: i18n.formatTime(task.dueAt, timeZone) })})` : '';
+
+  const withWasDue = (task: DigestTask, separator: string) =>
+    task.dueDate
+      ? `${task.name}${separator}${t('daily-digest.wasDue', { date: i18n.formatDate(task.dueDate) })}`
+      : task.name;
+
+  const taskHtml = (task: DigestTask) => `
+        <li>
+          <strong>${escapeHtml(task.name)}</strong>${describeDue(task)}
+          ${task.priorityReasoning ? `<div class="reasoning">${escapeHtml(task.priorityReasoning)}</div>` : ''}
+        </li>`;
+
+  const taskText = (task: DigestTask) =>
+    `- ${task.name}${describeDue(task)}${task.priorityReasoning ? `\n  ${task.priorityReasoning}` : ''}`;
+
+  return {
+    html: `
+<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+    .content { background-color: #f9fafb; padding: 20px; margin-top: 20px; border-radius: 8px; }
+    h2 { font-size: 16px; margin: 20px 0 8px; }
+    ul { padding-left: 20px; margin: 0; }
+    li { margin-bottom: 8px; }
+    .reasoning { color: #6b7280; font-size: 13px; font-style: italic; }
+    .overdue { color: #dc2626; }
+    .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+    .footer { margin-top: 30px; text-align: center; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${t('daily-digest.title')}${date ? `: ${date}` : ''}</h1>
+    </div>
+    <div class="content">
+      ${tasks.length === 0 ? `<p>${t('daily-digest.nothingToday')}</p>` : ''}
+      ${groups.map((group) => `
+      <h2 style="color: ${group.color};">${t(group.label)}</h2>
+      <ul>${group.tasks.map(taskHtml).join('')}
+      </ul>`).join('')}
+      ${overdue.length > 0 ? `
+      <h2 class="overdue">${t('daily-digest.overdue')}</h2>
+      <ul>${overdue.map((task) => taskHtml({ ...task, name: withWasDue(task, ' — ') })).join('')}
+      </ul>` : ''}
+      ${url ? `<a href="${escapeHtml(url)}" class="button">${t('daily-digest.open')}</a>` : ''}
+    </div>
+    <div class="footer">
+      <p>${t('daily-digest.footer')}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `,
+    text: `
+${t('daily-digest.title')}${date ? `: ${date}` : ''}
 
-SECURITY NOTICE: This link will expire in ${expiresIn || '1 hour'}. If you didn't request this reset, please ignore this email.
+${tasks.length === 0 ? `${t('daily-digest.nothingToday')}\n` : ''}${groups.map((group) => `${t(group.label)}\n${group.tasks.map(taskText).join('\n')}\n`).join('\n')}
+${overdue.length > 0 ? `\n${t('daily-digest.overdue')}\n${overdue.map((task) => taskText({ ...task, name: withWasDue(task, ' — ') })).join('\n')}\n` : ''}
+${url ? `\n${t('daily-digest.open')}: ${url}` : ''}
 
 ---
-Tidy Prioritize - Keep your tasks organized
+${t('daily-digest.footer')}
     `,
   };
 }
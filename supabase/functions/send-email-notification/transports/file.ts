@@ -0,0 +1,46 @@
+import type { EmailTransport } from './index.ts';
+
+/**
+ * Writes each email to EMAIL_FILE_DIR (default /tmp/emails) as JSON instead of sending it
+ */
+export function createFileTransport(): EmailTransport {
+  const directory = Deno.env.get('EMAIL_FILE_DIR') || '/tmp/emails';
+
+  return {
+    name: 'file',
+    async send(email) {
+      await Deno.mkdir(directory, { recursive: true });
+
+      const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}`;
+      const path = `${directory}/${messageId}.json`;
+      await Deno.writeTextFile(path, JSON.stringify(email, null, 2));
+
+      console.log(`Email to ${email.to} written to ${path}`);
+      return { messageId };
+    },
+  };
+}
+
+/**
+ * Prints each email to the function logs instead of sending it
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(email) {
+      const messageId = crypto.randomUUID();
+      console.log(
+        [
+          `--- Email ${messageId} ---`,
+          `From: ${email.from}`,
+          `To: ${email.to}`,
+          `Subject: ${email.subject}`,
+          ...Object.entries(email.headers || {}).map(([name, value]) => `${name}: ${value}`),
+          '',
+          email.text ?? email.html ?? '',
+        ].join('\n')
+      );
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { createResendTransport } from './resend.ts';
+import { createSmtpTransport } from './smtp.ts';
+import { createConsoleTransport, createFileTransport } from './file.ts';
+
+/**
+ * Email transports. EMAIL_TRANSPORT picks one of: resend (default), smtp, file, console.
+ * The file and console transports never send real mail, for local runs and tests.
+ */
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<{ messageId?: string }>;
+}
+
+const transports: Record<string, () => EmailTransport> = {
+  resend: createResendTransport,
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport,
+};
+
+export function getTransport(): EmailTransport {
+  const name = (Deno.env.get('EMAIL_TRANSPORT') || 'resend').toLowerCase();
+  const createTransport = transports[name];
+
+  if (!createTransport) {
+    throw new Error(
+      `Unknown EMAIL_TRANSPORT '${name}'. Expected one of: ${Object.keys(transports).join(', ')}`
+    );
+  }
+
+  return createTransport();
+}
@@ -0,0 +1,34 @@
+import type { EmailTransport } from './index.ts';
+
+/**
+ * Sends through Resend's HTTP API. Needs RESEND_API_KEY.
+ */
+export function createResendTransport(): EmailTransport {
+  const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
+
+  if (!RESEND_API_KEY) {
+    throw new Error('RESEND_API_KEY is not configured');
+  }
+
+  return {
+    name: 'resend',
+    async send(email) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${RESEND_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(email),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Email service error: ${response.status} - ${errorData}`);
+      }
+
+      const result = await response.json();
+      return { messageId: result.id };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import type { EmailTransport } from './index.ts';
+
+/**
+ * Sends through any SMTP server, e.g. a self-hosted relay or MailHog for local testing.
+ *
+ * - SMTP_HOST (required), SMTP_PORT (default 587)
+ * - SMTP_USERNAME / SMTP_PASSWORD: omit both for servers without auth
+ * - SMTP_TLS: "true" for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+ */
+export function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+
+  if (!hostname) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') || 587),
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: email.from,
+          to: email.to,
+          subject: email.subject,
+          content: email.text ?? 'auto',
+          html: email.html,
+          headers: email.headers,
+        });
+      } finally {
+        await client.close();
+      }
+
+      return {};
+    },
+  };
+}
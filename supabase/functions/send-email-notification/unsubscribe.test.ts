@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createUnsubscribeToken, getUnsubscribeUrls, verifyUnsubscribeToken } from './unsubscribe.ts';
+
+let env: Record<string, string | undefined>;
+
+beforeEach(() => {
+  env = {
+    UNSUBSCRIBE_SECRET: 'test-secret',
+    APP_URL: 'https://app.example.com',
+    SUPABASE_URL: 'https://project.supabase.co',
+  };
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('unsubscribe tokens', () => {
+  it('verifies a token it signed', async () => {
+    const token = await createUnsubscribeToken('user-1', 'task-reminder');
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(await verifyUnsubscribeToken(token!)).toEqual({ userId: 'user-1', template: 'task-reminder' });
+  });
+
+  it('rejects a token for another user or template', async () => {
+    const token = await createUnsubscribeToken('user-1', 'task-reminder');
+    const [, signature] = token!.split('.');
+    const forgedPayload = btoa('user-2:task-reminder').replace(/=+$/, '');
+
+    expect(await verifyUnsubscribeToken(`${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await createUnsubscribeToken('user-1', 'task-reminder');
+    env.UNSUBSCRIBE_SECRET = 'rotated-secret';
+
+    expect(await verifyUnsubscribeToken(token!)).toBeNull();
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifyUnsubscribeToken('')).toBeNull();
+    expect(await verifyUnsubscribeToken('no-signature')).toBeNull();
+    expect(await verifyUnsubscribeToken('not base64!.also not!')).toBeNull();
+  });
+
+  it('creates and accepts no tokens without UNSUBSCRIBE_SECRET', async () => {
+    const token = await createUnsubscribeToken('user-1', 'task-reminder');
+    env.UNSUBSCRIBE_SECRET = undefined;
+
+    expect(await createUnsubscribeToken('user-1', 'task-reminder')).toBeNull();
+    expect(await verifyUnsubscribeToken(token!)).toBeNull();
+  });
+});
+
+describe('getUnsubscribeUrls', () => {
+  it('links the app page and the one-click endpoint', () => {
+    expect(getUnsubscribeUrls('a+b.c')).toEqual({
+      pageUrl: 'https://app.example.com/unsubscribe?token=a%2Bb.c',
+      oneClickUrl: 'https://project.supabase.co/functions/v1/unsubscribe?token=a%2Bb.c',
+    });
+  });
+
+  it('leaves out the page without APP_URL', () => {
+    env.APP_URL = undefined;
+
+    expect(getUnsubscribeUrls('token').pageUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Signed unsubscribe tokens: base64url("<userId>:<template>") + "." + base64url(HMAC-SHA256).
+ * Signed with UNSUBSCRIBE_SECRET; without it no unsubscribe links are generated.
+ */
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+async function getKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function createUnsubscribeToken(userId: string, template: string): Promise<string | null> {
+  const secret = Deno.env.get('UNSUBSCRIBE_SECRET');
+  if (!secret) return null;
+
+  const payload = encoder.encode(`${userId}:${template}`);
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), payload);
+
+  return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the user and template a token was issued for, or null if it is malformed or forged
+ */
+export async function verifyUnsubscribeToken(
+  token: string
+): Promise<{ userId: string; template: string } | null> {
+  const secret = Deno.env.get('UNSUBSCRIBE_SECRET');
+  if (!secret) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const payload = fromBase64Url(encodedPayload);
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(secret),
+      fromBase64Url(encodedSignature),
+      payload
+    );
+    if (!valid) return null;
+
+    const decoded = new TextDecoder().decode(payload);
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+
+    return { userId: decoded.slice(0, separator), template: decoded.slice(separator + 1) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * App page that confirms the unsubscribe, and the RFC 8058 one-click endpoint for mail clients
+ */
+export function getUnsubscribeUrls(token: string): { pageUrl?: string; oneClickUrl: string } {
+  const appUrl = Deno.env.get('APP_URL');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const query = `token=${encodeURIComponent(token)}`;
+
+  return {
+    pageUrl: appUrl ? `${appUrl}/unsubscribe?${query}` : undefined,
+    oneClickUrl: `${supabaseUrl}/functions/v1/unsubscribe?${query}`,
+  };
+}
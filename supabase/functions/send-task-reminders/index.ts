@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { deliverEmail, type DeliveryResult, type EmailRequest } from '../send-email-notification/pipeline.ts';
+import { enqueueEmail, recordAttempt } from '../send-email-notification/outbox.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DueReminder {
+  task_id: string;
+  user_id: string;
+  email: string;
+  name: string;
+  description: string | null;
+  due_date: string;
+  due_at: string | null;
+  time_zone: string;
+  due_for: string;
+}
+
+/**
+ * Scheduled job (see the send-task-reminders cron entry) that emails a task-reminder
+ * for every open task entering its owner's reminder window.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduler, which holds the service role key, may trigger a run
+    if (req.headers.get('authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const appUrl = Deno.env.get('APP_URL');
+
+    const { data: reminders, error: fetchError } = await supabase.rpc('get_due_task_reminders');
+
+    if (fetchError) {
+      console.error('Error fetching due reminders:', fetchError);
+      throw fetchError;
+    }
+
+    const summary = { sent: 0, queued: 0, failed: 0, skipped: 0 };
+
+    for (const reminder of (reminders || []) as DueReminder[]) {
+      // Claim the reminder first; a unique violation means another run already has it
+      const { data: claim, error: claimError } = await supabase
+        .from('task_reminders')
+        .insert({
+          task_id: reminder.task_id,
+          user_id: reminder.user_id,
+          due_for: reminder.due_for,
+        })
+        .select('id')
+        .single();
+
+      if (claimError?.code === '23505') {
+        summary.skipped++;
+        continue;
+      }
+      if (claimError) {
+        console.error('Error claiming reminder:', claimError);
+        summary.failed++;
+        continue;
+      }
+
+      const emailData: EmailRequest = {
+        to: reminder.email,
+        template: 'task-reminder',
+        data: {
+          taskName: reminder.name,
+          description: reminder.description,
+          dueDate: reminder.due_date,
+          dueAt: reminder.due_at,
+          timeZone: reminder.time_zone,
+          url: appUrl ? `${appUrl}/calendar?date=${reminder.due_date}` : undefined,
+        },
+      };
+
+      let status: 'sent' | 'queued' | 'failed' | 'skipped';
+      let result: DeliveryResult | null = null;
+      let outboxId: string | null = null;
+
+      try {
+        // Queued like every other email, so process-email-outbox retries a failed first
+        // attempt and holds the reminder through the recipient's quiet hours
+        const { email } = await enqueueEmail(supabase, reminder.user_id, `task-reminder:${claim.id}`, emailData);
+        outboxId = email.id;
+
+        try {
+          result = await deliverEmail(supabase, reminder.user_id, emailData);
+        } catch (error) {
+          result = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        const attempt = await recordAttempt(supabase, email, result);
+        status =
+          attempt.status === 'sent' ? 'sent'
+          : attempt.status !== 'dead' ? 'queued'
+          : result.status === 'suppressed' ? 'skipped'
+          : 'failed';
+      } catch (error) {
+        console.error('Error delivering reminder:', error);
+        status = 'failed';
+      }
+
+      summary[status]++;
+
+      const { error: updateError } = await supabase
+        .from('task_reminders')
+        .update({ status, email_log_id: result?.logId ?? null, email_outbox_id: outboxId })
+        .eq('id', claim.id);
+
+      if (updateError) {
+        console.error('Error updating reminder:', updateError);
+      }
+    }
+
+    console.log('Task reminders run complete:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-task-reminders:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
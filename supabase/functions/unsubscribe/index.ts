@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { verifyUnsubscribeToken } from '../send-email-notification/unsubscribe.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Public endpoint behind the signed links in every email. The token is the only credential.
+ *
+ * - POST ?token=... with "List-Unsubscribe=One-Click": RFC 8058 one-click from mail clients
+ * - POST { token, enabled? }: the app's /unsubscribe page; enabled: true resubscribes
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    let token = new URL(req.url).searchParams.get('token');
+    let enabled = false;
+
+    if (req.headers.get('content-type')?.includes('application/json')) {
+      const body = await req.json();
+      token = body.token ?? token;
+      enabled = body.enabled === true;
+    }
+
+    const verified = token ? await verifyUnsubscribeToken(token) : null;
+    if (!verified) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid unsubscribe link' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        { user_id: verified.userId, template: verified.template, enabled },
+        { onConflict: 'user_id,template' }
+      );
+
+    if (error) {
+      console.error('Error updating notification preference:', error);
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, template: verified.template, enabled }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in unsubscribe:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
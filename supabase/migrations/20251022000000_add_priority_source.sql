@@ -0,0 +1,3 @@
+-- Track whether a task's priority was set by the AI or manually by the user
+ALTER TABLE public.tasks
+ADD COLUMN priority_source text NOT NULL DEFAULT 'ai' CHECK (priority_source IN ('ai', 'manual'));
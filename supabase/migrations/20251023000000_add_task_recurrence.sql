@@ -0,0 +1,12 @@
+-- Add recurrence support to tasks
+-- recurrence_rule holds an RRULE subset, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20251231'
+ALTER TABLE public.tasks
+ADD COLUMN recurrence_rule text,
+ADD COLUMN recurrence_parent_id uuid REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+-- Only one follow-up occurrence may be generated per completed instance
+CREATE UNIQUE INDEX idx_tasks_recurrence_parent_id ON public.tasks(recurrence_parent_id);
+
+-- Create index for projecting open recurring tasks onto future dates
+CREATE INDEX idx_tasks_user_recurring ON public.tasks(user_id, due_date)
+  WHERE recurrence_rule IS NOT NULL AND completed = false;
@@ -0,0 +1,50 @@
+-- Create task_items table for checklist items under a task
+CREATE TABLE public.task_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create index for loading a task's checklist in order
+CREATE INDEX idx_task_items_task_position ON public.task_items(task_id, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.task_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for task_items
+CREATE POLICY "Users can view their own task items"
+  ON public.task_items
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create items on their own tasks"
+  ON public.task_items
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id AND tasks.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own task items"
+  ON public.task_items
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task items"
+  ON public.task_items
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_task_items_updated_at
+  BEFORE UPDATE ON public.task_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Add free-form tags to tasks
+ALTER TABLE public.tasks
+ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+-- Create GIN index for tag containment queries
+CREATE INDEX idx_tasks_tags ON public.tasks USING GIN (tags);
+
+-- List the caller's tags with usage counts for autocomplete
+CREATE OR REPLACE FUNCTION public.get_user_tags()
+RETURNS TABLE (tag text, usage_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT unnest(tags) AS tag, count(*) AS usage_count
+  FROM public.tasks
+  WHERE user_id = auth.uid()
+  GROUP BY 1
+  ORDER BY 2 DESC, 1;
+$$;
@@ -0,0 +1,76 @@
+-- Full-text search over task name, description and AI priority reasoning
+CREATE OR REPLACE FUNCTION public.task_search_vector(name text, description text, priority_reasoning text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(priority_reasoning, '')), 'C');
+$$;
+
+-- Create GIN index matching the expression used by search_tasks
+CREATE INDEX idx_tasks_search ON public.tasks
+  USING GIN (public.task_search_vector(name, description, priority_reasoning));
+
+-- Ranked search with highlighted matches. Every search word is treated as a prefix so results
+-- update while typing. Matches are wrapped in chr(2)/chr(3) so clients never render raw HTML.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  search_query text,
+  include_completed boolean DEFAULT false,
+  priority_filter text[] DEFAULT NULL,
+  due_from date DEFAULT NULL,
+  due_to date DEFAULT NULL,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  priority text,
+  due_date date,
+  completed boolean,
+  project_id uuid,
+  rank real,
+  name_highlight text,
+  description_highlight text,
+  reasoning_highlight text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS tsq
+    FROM unnest(regexp_split_to_array(
+      trim(regexp_replace(lower(search_query), '[^[:alnum:]]+', ' ', 'g')), '\s+'
+    )) AS word
+    WHERE word <> ''
+  ),
+  options AS (
+    SELECT format('StartSel=%s, StopSel=%s', chr(2), chr(3)) AS base
+  )
+  SELECT
+    t.id,
+    t.name,
+    t.description,
+    t.priority,
+    t.due_date,
+    t.completed,
+    t.project_id,
+    ts_rank(public.task_search_vector(t.name, t.description, t.priority_reasoning), query.tsq) AS rank,
+    ts_headline('english', t.name, query.tsq, options.base || ', HighlightAll=true'),
+    ts_headline('english', t.description, query.tsq, options.base || ', MaxWords=20, MinWords=8'),
+    ts_headline('english', t.priority_reasoning, query.tsq, options.base || ', MaxWords=15, MinWords=5')
+  FROM public.tasks t, query, options
+  WHERE public.task_search_vector(t.name, t.description, t.priority_reasoning) @@ query.tsq
+    AND (include_completed OR NOT t.completed)
+    AND (priority_filter IS NULL OR t.priority = ANY(priority_filter))
+    AND (due_from IS NULL OR t.due_date >= due_from)
+    AND (due_to IS NULL OR t.due_date <= due_to)
+  ORDER BY rank DESC, t.created_at DESC
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,41 @@
+-- Optional exact due time. due_date stays the calendar day in the owner's time zone
+-- so day-based views keep working; due_at is set only when a time was chosen.
+ALTER TABLE public.tasks
+  ADD COLUMN due_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_tasks_due_at ON public.tasks(due_at) WHERE due_at IS NOT NULL;
+
+-- IANA time zone (e.g. 'Europe/Berlin'); NULL until the client reports one
+ALTER TABLE public.profiles
+  ADD COLUMN time_zone TEXT;
+
+-- Move open tasks due before `before_date` onto `target_date`, keeping any due time
+-- as the same wall-clock time in `time_zone`. Returns the number of tasks moved.
+CREATE OR REPLACE FUNCTION public.reschedule_overdue_tasks(
+  before_date date,
+  target_date date,
+  time_zone text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  moved integer;
+BEGIN
+  UPDATE public.tasks
+  SET
+    due_date = target_date,
+    due_at = CASE
+      WHEN due_at IS NULL THEN NULL
+      ELSE (target_date + (due_at AT TIME ZONE time_zone)::time) AT TIME ZONE time_zone
+    END
+  WHERE user_id = auth.uid()
+    AND completed = false
+    AND due_date < before_date;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Reminder settings: how many hours before a task is due to send a reminder email
+ALTER TABLE public.profiles
+  ADD COLUMN reminders_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN reminder_window_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (reminder_window_hours BETWEEN 1 AND 168);
+
+-- One row per reminder sent (or attempted) for a task's due date. The unique key is
+-- claimed before the email goes out, so overlapping runs can never send twice.
+CREATE TABLE public.task_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  due_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  email_log_id UUID REFERENCES public.email_logs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, due_for)
+);
+
+CREATE INDEX idx_task_reminders_user_id ON public.task_reminders(user_id);
+
+-- Enable Row Level Security; rows are written by the scheduled function with the service role
+ALTER TABLE public.task_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own task reminders"
+  ON public.task_reminders
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Open tasks whose due moment falls inside their owner's reminder window and that have
+-- not been reminded about for that due moment yet. Tasks without a due time are due at
+-- the end of their due date in the owner's time zone.
+CREATE OR REPLACE FUNCTION public.get_due_task_reminders()
+RETURNS TABLE (
+  task_id uuid,
+  user_id uuid,
+  email text,
+  name text,
+  description text,
+  due_date date,
+  due_at timestamptz,
+  time_zone text,
+  due_for timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    candidate.task_id,
+    candidate.user_id,
+    candidate.email,
+    candidate.name,
+    candidate.description,
+    candidate.due_date,
+    candidate.due_at,
+    candidate.time_zone,
+    candidate.due_for
+  FROM (
+    SELECT
+      t.id AS task_id,
+      t.user_id,
+      u.email::text,
+      t.name,
+      t.description,
+      t.due_date,
+      t.due_at,
+      coalesce(p.time_zone, 'UTC') AS time_zone,
+      coalesce(
+        t.due_at,
+        ((t.due_date + 1)::timestamp AT TIME ZONE coalesce(p.time_zone, 'UTC'))
+      ) AS due_for,
+      p.reminder_window_hours
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.user_id
+    JOIN auth.users u ON u.id = t.user_id
+    WHERE p.reminders_enabled
+      AND NOT t.completed
+      AND t.due_date IS NOT NULL
+      AND u.email IS NOT NULL
+  ) AS candidate
+  WHERE candidate.due_for > now()
+    AND candidate.due_for <= now() + make_interval(hours => candidate.reminder_window_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.task_reminders r
+      WHERE r.task_id = candidate.task_id AND r.due_for = candidate.due_for
+    );
+$$;
+
+-- Reads auth.users, so only the scheduled function may call it
+REVOKE EXECUTE ON FUNCTION public.get_due_task_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_task_reminders() TO service_role;
+
+-- Invoke send-task-reminders every 15 minutes. The project URL and service role key are
+-- read from Vault so no secrets live in migrations:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-task-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-task-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
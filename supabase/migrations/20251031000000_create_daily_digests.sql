@@ -0,0 +1,80 @@
+-- Daily digest settings: opt-in, sent at digest_hour (0-23) in the user's time zone
+ALTER TABLE public.profiles
+  ADD COLUMN digest_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN digest_hour SMALLINT NOT NULL DEFAULT 8
+    CHECK (digest_hour BETWEEN 0 AND 23);
+
+-- One row per user and local day; claimed before sending so a day is never sent twice
+CREATE TABLE public.daily_digests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  digest_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_log_id UUID REFERENCES public.email_logs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, digest_date)
+);
+
+-- Enable Row Level Security; rows are written by the scheduled function with the service role
+ALTER TABLE public.daily_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own daily digests"
+  ON public.daily_digests
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users whose local digest hour has arrived today and who have not had today's digest.
+-- Comparing with >= lets a late or missed run still deliver the same day.
+CREATE OR REPLACE FUNCTION public.get_due_daily_digests()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  time_zone text,
+  digest_date date
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT local.user_id, local.email, local.time_zone, local.local_now::date
+  FROM (
+    SELECT
+      p.id AS user_id,
+      u.email::text AS email,
+      coalesce(p.time_zone, 'UTC') AS time_zone,
+      now() AT TIME ZONE coalesce(p.time_zone, 'UTC') AS local_now,
+      p.digest_hour
+    FROM public.profiles p
+    JOIN auth.users u ON u.id = p.id
+    WHERE p.digest_enabled
+      AND u.email IS NOT NULL
+  ) AS local
+  WHERE extract(hour FROM local.local_now) >= local.digest_hour
+    AND NOT EXISTS (
+      SELECT 1 FROM public.daily_digests d
+      WHERE d.user_id = local.user_id AND d.digest_date = local.local_now::date
+    );
+$$;
+
+-- Reads auth.users, so only the scheduled function may call it
+REVOKE EXECUTE ON FUNCTION public.get_due_daily_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_daily_digests() TO service_role;
+
+-- Every 30 minutes so zones with half-hour offsets get their digest on the hour.
+-- Uses the same Vault secrets as send-task-reminders.
+SELECT cron.schedule(
+  'send-daily-digest',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-daily-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,207 @@
+-- Per-template email preferences. A missing row means the template's default:
+-- every template is on by default except the opt-in daily digest.
+CREATE TABLE public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  channel TEXT NOT NULL DEFAULT 'email' CHECK (channel IN ('email')),
+  -- Local hours (user's profile time zone) during which nothing is sent; the window
+  -- may wrap past midnight, e.g. 22 -> 7. Both NULL means no quiet hours.
+  quiet_hours_start SMALLINT CHECK (quiet_hours_start BETWEEN 0 AND 23),
+  quiet_hours_end SMALLINT CHECK (quiet_hours_end BETWEEN 0 AND 23),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, template),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notification preferences"
+  ON public.notification_preferences
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move the reminder and digest switches from profiles into preferences
+INSERT INTO public.notification_preferences (user_id, template, enabled)
+SELECT id, 'task-reminder', false FROM public.profiles WHERE NOT reminders_enabled;
+
+INSERT INTO public.notification_preferences (user_id, template, enabled)
+SELECT id, 'daily-digest', true FROM public.profiles WHERE digest_enabled;
+
+ALTER TABLE public.profiles
+  DROP COLUMN reminders_enabled,
+  DROP COLUMN digest_enabled;
+
+-- Suppressed emails are logged too, so users can see why something never arrived
+ALTER TABLE public.email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE public.email_logs
+  ADD CONSTRAINT email_logs_status_check CHECK (status IN ('sent', 'failed', 'suppressed'));
+
+ALTER TABLE public.task_reminders DROP CONSTRAINT IF EXISTS task_reminders_status_check;
+ALTER TABLE public.task_reminders
+  ADD CONSTRAINT task_reminders_status_check CHECK (status IN ('pending', 'sent', 'failed', 'skipped'));
+
+-- Whether `template` is switched on for `target_user_id`, falling back to its default
+CREATE OR REPLACE FUNCTION public.notification_enabled(target_user_id uuid, template_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT np.enabled FROM public.notification_preferences np
+     WHERE np.user_id = target_user_id AND np.template = template_name),
+    template_name <> 'daily-digest'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_enabled(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notification_enabled(uuid, text) TO service_role;
+
+-- Preference and time zone of the account owning `recipient_email`, used by the email
+-- pipeline before sending. No row is returned when the address has no account.
+CREATE OR REPLACE FUNCTION public.get_email_recipient_settings(recipient_email text, template_name text)
+RETURNS TABLE (
+  user_id uuid,
+  enabled boolean,
+  channel text,
+  quiet_hours_start smallint,
+  quiet_hours_end smallint,
+  time_zone text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    public.notification_enabled(u.id, template_name),
+    coalesce(np.channel, 'email'),
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    coalesce(p.time_zone, 'UTC')
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  LEFT JOIN public.notification_preferences np ON np.user_id = u.id AND np.template = template_name
+  WHERE lower(u.email) = lower(recipient_email)
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_email_recipient_settings(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_email_recipient_settings(text, text) TO service_role;
+
+-- Scheduled jobs now read the on/off switch from preferences
+CREATE OR REPLACE FUNCTION public.get_due_task_reminders()
+RETURNS TABLE (
+  task_id uuid,
+  user_id uuid,
+  email text,
+  name text,
+  description text,
+  due_date date,
+  due_at timestamptz,
+  time_zone text,
+  due_for timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    candidate.task_id,
+    candidate.user_id,
+    candidate.email,
+    candidate.name,
+    candidate.description,
+    candidate.due_date,
+    candidate.due_at,
+    candidate.time_zone,
+    candidate.due_for
+  FROM (
+    SELECT
+      t.id AS task_id,
+      t.user_id,
+      u.email::text,
+      t.name,
+      t.description,
+      t.due_date,
+      t.due_at,
+      coalesce(p.time_zone, 'UTC') AS time_zone,
+      coalesce(
+        t.due_at,
+        ((t.due_date + 1)::timestamp AT TIME ZONE coalesce(p.time_zone, 'UTC'))
+      ) AS due_for,
+      p.reminder_window_hours
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.user_id
+    JOIN auth.users u ON u.id = t.user_id
+    WHERE public.notification_enabled(t.user_id, 'task-reminder')
+      AND NOT t.completed
+      AND t.due_date IS NOT NULL
+      AND u.email IS NOT NULL
+  ) AS candidate
+  WHERE candidate.due_for > now()
+    AND candidate.due_for <= now() + make_interval(hours => candidate.reminder_window_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.task_reminders r
+      WHERE r.task_id = candidate.task_id AND r.due_for = candidate.due_for
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_due_daily_digests()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  time_zone text,
+  digest_date date
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT local.user_id, local.email, local.time_zone, local.local_now::date
+  FROM (
+    SELECT
+      p.id AS user_id,
+      u.email::text AS email,
+      coalesce(p.time_zone, 'UTC') AS time_zone,
+      now() AT TIME ZONE coalesce(p.time_zone, 'UTC') AS local_now,
+      p.digest_hour
+    FROM public.profiles p
+    JOIN auth.users u ON u.id = p.id
+    WHERE public.notification_enabled(p.id, 'daily-digest')
+      AND u.email IS NOT NULL
+  ) AS local
+  WHERE extract(hour FROM local.local_now) >= local.digest_hour
+    AND NOT EXISTS (
+      SELECT 1 FROM public.daily_digests d
+      WHERE d.user_id = local.user_id AND d.digest_date = local.local_now::date
+    );
+$$;
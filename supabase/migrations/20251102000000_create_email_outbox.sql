@@ -0,0 +1,109 @@
+-- Outbound email queue. Every request to send-email-notification gets a row, keyed by the
+-- caller's idempotency key; failed sends are retried with exponential backoff by
+-- process-email-outbox until they succeed or run out of attempts ('dead').
+CREATE TABLE public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  template TEXT,
+  request JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  email_log_id UUID REFERENCES public.email_logs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at)
+  WHERE status IN ('queued', 'failed', 'sending');
+
+-- Enable Row Level Security; rows are written by the edge functions with the service role
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own outbox emails"
+  ON public.email_outbox
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lock a batch of emails that are due for an attempt and mark them 'sending'.
+-- Rows stuck in 'sending' for 10 minutes belong to a run that died and are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(batch_size integer DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id
+    FROM public.email_outbox
+    WHERE (status IN ('queued', 'failed') AND next_attempt_at <= now())
+      OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(integer) TO service_role;
+
+-- "Retry now": put one of the caller's failed or dead emails back at the front of the queue.
+-- Dead emails get one more attempt.
+CREATE OR REPLACE FUNCTION public.retry_email(email_id uuid)
+RETURNS public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retried public.email_outbox;
+BEGIN
+  UPDATE public.email_outbox
+  SET status = 'queued',
+    next_attempt_at = now(),
+    max_attempts = greatest(max_attempts, attempts + 1)
+  WHERE id = email_id
+    AND user_id = auth.uid()
+    AND status IN ('failed', 'dead')
+  RETURNING * INTO retried;
+
+  IF retried.id IS NULL THEN
+    RAISE EXCEPTION 'Email not found or not waiting for a retry';
+  END IF;
+
+  RETURN retried;
+END;
+$$;
+
+-- Runs every minute so retries and "retry now" go out promptly.
+-- Uses the same Vault secrets as send-task-reminders.
+SELECT cron.schedule(
+  'process-email-outbox',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/process-email-outbox',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
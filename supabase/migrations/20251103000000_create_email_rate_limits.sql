@@ -0,0 +1,96 @@
+-- Email rate limits per plan. Only successful sends count towards the hourly and daily
+-- limits; failed sends draw on a separate daily failure budget.
+CREATE TABLE public.email_plans (
+  plan TEXT NOT NULL PRIMARY KEY,
+  max_emails_per_hour INTEGER NOT NULL CHECK (max_emails_per_hour >= 0),
+  max_emails_per_day INTEGER NOT NULL CHECK (max_emails_per_day >= 0),
+  max_failures_per_day INTEGER NOT NULL CHECK (max_failures_per_day >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.email_plans (plan, max_emails_per_hour, max_emails_per_day, max_failures_per_day)
+VALUES
+  ('free', 10, 50, 20),
+  ('pro', 50, 500, 100);
+
+ALTER TABLE public.email_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view email plans"
+  ON public.email_plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- A user's plan and any per-user overrides; users without a row are on 'free'.
+-- Managed with the service role so users cannot raise their own limits.
+CREATE TABLE public.user_email_limits (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL DEFAULT 'free' REFERENCES public.email_plans(plan),
+  max_emails_per_hour INTEGER CHECK (max_emails_per_hour >= 0),
+  max_emails_per_day INTEGER CHECK (max_emails_per_day >= 0),
+  max_failures_per_day INTEGER CHECK (max_failures_per_day >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_email_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email limits"
+  ON public.user_email_limits
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_email_limits_updated_at
+  BEFORE UPDATE ON public.user_email_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rejections for exceeding a limit get their own status so they use up neither budget
+ALTER TABLE public.email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE public.email_logs
+  ADD CONSTRAINT email_logs_status_check
+  CHECK (status IN ('sent', 'failed', 'suppressed', 'rate_limited'));
+
+-- Earlier rejections were logged as failures
+UPDATE public.email_logs
+SET status = 'rate_limited'
+WHERE status = 'failed'
+  AND (error_message LIKE 'Hourly rate limit exceeded%' OR error_message LIKE 'Daily rate limit exceeded%');
+
+-- Effective limits and usage over the last hour and 24 hours for one user.
+-- Runs with the caller's rights: users can only see their own, the service role anyone's.
+CREATE OR REPLACE FUNCTION public.get_email_rate_limit_status(target_user_id uuid)
+RETURNS TABLE (
+  plan text,
+  max_emails_per_hour integer,
+  max_emails_per_day integer,
+  max_failures_per_day integer,
+  sent_this_hour integer,
+  sent_today integer,
+  failed_today integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.plan,
+    coalesce(l.max_emails_per_hour, p.max_emails_per_hour),
+    coalesce(l.max_emails_per_day, p.max_emails_per_day),
+    coalesce(l.max_failures_per_day, p.max_failures_per_day),
+    usage.sent_this_hour,
+    usage.sent_today,
+    usage.failed_today
+  FROM (SELECT target_user_id AS user_id) AS target
+  LEFT JOIN public.user_email_limits l ON l.user_id = target.user_id
+  JOIN public.email_plans p ON p.plan = coalesce(l.plan, 'free')
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE e.status = 'sent' AND e.created_at >= now() - interval '1 hour')::integer AS sent_this_hour,
+      count(*) FILTER (WHERE e.status = 'sent')::integer AS sent_today,
+      count(*) FILTER (WHERE e.status = 'failed')::integer AS failed_today
+    FROM public.email_logs e
+    WHERE e.user_id = target.user_id
+      AND e.created_at >= now() - interval '24 hours'
+  ) AS usage;
+$$;
@@ -0,0 +1,89 @@
+-- Secret part of each user's inbound address (tasks+<token>@<INBOUND_EMAIL_DOMAIN>).
+-- Created on first use; a new token retires the old address.
+CREATE TABLE public.inbound_email_addresses (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inbound_email_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own inbound email address"
+  ON public.inbound_email_addresses
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Every email received by receive-inbound-email, including rejected ones. Rejections
+-- for unknown addresses have no user_id.
+CREATE TABLE public.inbound_emails (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  sender TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  status TEXT NOT NULL CHECK (status IN ('accepted', 'rejected')),
+  reason TEXT,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inbound_emails_user_id ON public.inbound_emails(user_id, created_at DESC);
+
+ALTER TABLE public.inbound_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own inbound emails"
+  ON public.inbound_emails
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The caller's inbound token, creating it on first use
+CREATE OR REPLACE FUNCTION public.get_inbound_email_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.inbound_email_addresses (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO result FROM public.inbound_email_addresses WHERE user_id = auth.uid();
+  RETURN result;
+END;
+$$;
+
+-- Replace the caller's inbound token, e.g. after the address leaked
+CREATE OR REPLACE FUNCTION public.regenerate_inbound_email_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.inbound_email_addresses (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = replace(gen_random_uuid()::text, '-', ''), created_at = now()
+  RETURNING token INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_inbound_email_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.regenerate_inbound_email_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_inbound_email_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_inbound_email_token() TO authenticated;
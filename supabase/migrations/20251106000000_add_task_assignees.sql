@@ -0,0 +1,210 @@
+-- Tasks can be assigned to another user. The owner (user_id) keeps full control; the
+-- assignee can see the task and complete or reopen it.
+ALTER TABLE public.tasks
+  ADD COLUMN assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_assignee_id ON public.tasks(assignee_id) WHERE assignee_id IS NOT NULL;
+
+CREATE POLICY "Assignees can view tasks assigned to them"
+  ON public.tasks
+  FOR SELECT
+  USING (auth.uid() = assignee_id);
+
+CREATE POLICY "Assignees can update tasks assigned to them"
+  ON public.tasks
+  FOR UPDATE
+  USING (auth.uid() = assignee_id)
+  WITH CHECK (auth.uid() = assignee_id);
+
+-- Completing a recurring task creates its next occurrence, owned by the same user
+CREATE POLICY "Assignees can create the next occurrence of tasks assigned to them"
+  ON public.tasks
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = assignee_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks parent
+      WHERE parent.id = tasks.recurrence_parent_id
+        AND parent.user_id = tasks.user_id
+        AND parent.assignee_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Assignees can view items on tasks assigned to them"
+  ON public.task_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id AND tasks.assignee_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Assignees can copy items to the next occurrence of tasks assigned to them"
+  ON public.task_items
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id
+        AND tasks.user_id = task_items.user_id
+        AND tasks.assignee_id = auth.uid()
+        AND tasks.recurrence_parent_id IS NOT NULL
+    )
+  );
+
+-- RLS cannot limit which columns change, so assignees who do not own the task are held
+-- to completing or reopening it here
+CREATE OR REPLACE FUNCTION public.restrict_assignee_task_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() = OLD.assignee_id
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND (to_jsonb(NEW) - 'completed' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'completed' - 'updated_at')
+  THEN
+    RAISE EXCEPTION 'Only the task owner can change this task; assignees can only complete it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_assignee_task_updates
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_assignee_task_updates();
+
+-- Queue a templated email to `recipient_id` in email_outbox, sent and counted against the
+-- rate limit of `sender_id`. process-email-outbox picks it up within a minute.
+CREATE OR REPLACE FUNCTION public.enqueue_task_email(
+  sender_id uuid,
+  recipient_id uuid,
+  template_name text,
+  subject text,
+  data jsonb
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.email_outbox (user_id, idempotency_key, recipient, subject, template, request)
+  SELECT
+    sender_id,
+    template_name || ':' || gen_random_uuid(),
+    u.email,
+    subject,
+    template_name,
+    jsonb_build_object('to', u.email, 'template', template_name, 'data', data)
+  FROM auth.users u
+  WHERE u.id = recipient_id AND u.email IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_task_email(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- task-assigned when a task is assigned to someone other than whoever assigned it, and
+-- task-completed to the other side when a shared task is completed
+CREATE OR REPLACE FUNCTION public.enqueue_task_assignment_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_id uuid := coalesce(auth.uid(), NEW.user_id);
+  actor_email text;
+  recipient_id uuid;
+BEGIN
+  SELECT email INTO actor_email FROM auth.users WHERE id = actor_id;
+
+  -- Next occurrences of a recurring task keep their assignee without a new email
+  IF NEW.assignee_id IS NOT NULL
+    AND NEW.assignee_id <> actor_id
+    AND (
+      (TG_OP = 'INSERT' AND NEW.recurrence_parent_id IS NULL)
+      OR (TG_OP = 'UPDATE' AND NEW.assignee_id IS DISTINCT FROM OLD.assignee_id)
+    )
+  THEN
+    PERFORM public.enqueue_task_email(
+      actor_id,
+      NEW.assignee_id,
+      'task-assigned',
+      'New Task Assigned: ' || NEW.name,
+      jsonb_build_object(
+        'taskName', NEW.name,
+        'assignedBy', actor_email,
+        'description', NEW.description,
+        'dueDate', NEW.due_date,
+        'dueAt', NEW.due_at
+      )
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.completed AND NOT OLD.completed AND NEW.assignee_id IS NOT NULL THEN
+    FOR recipient_id IN
+      SELECT DISTINCT id FROM unnest(ARRAY[NEW.user_id, NEW.assignee_id]) AS id WHERE id <> actor_id
+    LOOP
+      PERFORM public.enqueue_task_email(
+        actor_id,
+        recipient_id,
+        'task-completed',
+        'Task Completed: ' || NEW.name,
+        jsonb_build_object(
+          'taskName', NEW.name,
+          'completedBy', actor_email,
+          'completedAt', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+        )
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_task_assignment_emails
+  AFTER INSERT OR UPDATE OF assignee_id, completed ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_task_assignment_emails();
+
+-- People the caller shares tasks with in either direction, for the assignee picker
+CREATE OR REPLACE FUNCTION public.get_task_collaborators()
+RETURNS TABLE (id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.id <> auth.uid()
+    AND u.id IN (
+      SELECT assignee_id FROM public.tasks WHERE user_id = auth.uid()
+      UNION
+      SELECT user_id FROM public.tasks WHERE assignee_id = auth.uid()
+    )
+  ORDER BY u.email;
+$$;
+
+-- Look up another account by its exact email address, to assign someone new
+CREATE OR REPLACE FUNCTION public.find_user_by_email(user_email text)
+RETURNS TABLE (id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.id <> auth.uid()
+    AND lower(u.email) = lower(trim(user_email))
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_task_collaborators() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.find_user_by_email(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_task_collaborators() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_user_by_email(text) TO authenticated;
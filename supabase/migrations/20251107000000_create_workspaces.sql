@@ -0,0 +1,375 @@
+-- Shared workspaces. Tasks with a workspace_id belong to the workspace and are visible to
+-- its members by role; tasks without one stay personal to their owner.
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- owner: everything, including deleting the workspace
+-- admin: manage members and invitations, delete any task
+-- member: create and edit tasks
+-- viewer: read only
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+-- Pending invitations by email address. The token is the secret part of the accept link.
+CREATE TABLE public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'viewer')),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workspace_invitations_workspace_id ON public.workspace_invitations(workspace_id);
+
+ALTER TABLE public.tasks
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tasks_workspace_id ON public.tasks(workspace_id) WHERE workspace_id IS NOT NULL;
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the caller is a member of the workspace with at least `min_role`. Runs as the
+-- owner so policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.has_workspace_role(target_workspace_id uuid, min_role text DEFAULT 'viewer')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = target_workspace_id
+      AND user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'member', 'admin', 'owner'], role)
+        >= array_position(ARRAY['viewer', 'member', 'admin', 'owner'], min_role)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_workspace_role(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_workspace_role(uuid, text) TO authenticated;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are created through create_workspace, which also adds the owner
+CREATE POLICY "Members can view their workspaces"
+  ON public.workspaces
+  FOR SELECT
+  USING (public.has_workspace_role(id));
+
+CREATE POLICY "Admins can rename their workspaces"
+  ON public.workspaces
+  FOR UPDATE
+  USING (public.has_workspace_role(id, 'admin'));
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON public.workspaces
+  FOR DELETE
+  USING (public.has_workspace_role(id, 'owner'));
+
+-- Members join through accept_workspace_invitation. Owners cannot be changed or removed.
+CREATE POLICY "Members can view other members of their workspaces"
+  ON public.workspace_members
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Admins can change member roles"
+  ON public.workspace_members
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'admin') AND role <> 'owner')
+  WITH CHECK (role <> 'owner');
+
+CREATE POLICY "Admins can remove members and members can leave"
+  ON public.workspace_members
+  FOR DELETE
+  USING (
+    role <> 'owner'
+    AND (auth.uid() = user_id OR public.has_workspace_role(workspace_id, 'admin'))
+  );
+
+CREATE POLICY "Admins can view invitations to their workspaces"
+  ON public.workspace_invitations
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id, 'admin'));
+
+CREATE POLICY "Admins can invite people to their workspaces"
+  ON public.workspace_invitations
+  FOR INSERT
+  WITH CHECK (auth.uid() = invited_by AND public.has_workspace_role(workspace_id, 'admin'));
+
+CREATE POLICY "Admins can revoke invitations to their workspaces"
+  ON public.workspace_invitations
+  FOR DELETE
+  USING (public.has_workspace_role(workspace_id, 'admin'));
+
+-- Task policies now check membership for workspace tasks and ownership for personal ones.
+-- The assignee policies from 20251106000000 still apply on top of these.
+DROP POLICY "Users can view their own tasks" ON public.tasks;
+DROP POLICY "Users can create their own tasks" ON public.tasks;
+DROP POLICY "Users can update their own tasks" ON public.tasks;
+DROP POLICY "Users can delete their own tasks" ON public.tasks;
+
+CREATE POLICY "Users can view their own and workspace tasks"
+  ON public.tasks
+  FOR SELECT
+  USING (
+    CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id)
+    END
+  );
+
+-- Members create workspace tasks as themselves, except the next occurrence of a recurring
+-- task, which keeps the owner of the one completed
+CREATE POLICY "Users can create their own and workspace tasks"
+  ON public.tasks
+  FOR INSERT
+  WITH CHECK (
+    CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id, 'member')
+        AND (
+          auth.uid() = user_id
+          OR EXISTS (
+            SELECT 1 FROM public.tasks parent
+            WHERE parent.id = tasks.recurrence_parent_id
+              AND parent.user_id = tasks.user_id
+              AND parent.workspace_id = tasks.workspace_id
+          )
+        )
+    END
+  );
+
+CREATE POLICY "Users can update their own and workspace tasks"
+  ON public.tasks
+  FOR UPDATE
+  USING (
+    CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id, 'member')
+    END
+  )
+  WITH CHECK (
+    CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id, 'member')
+    END
+  );
+
+CREATE POLICY "Users can delete their own and workspace tasks"
+  ON public.tasks
+  FOR DELETE
+  USING (
+    CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id, 'admin')
+        OR (auth.uid() = user_id AND public.has_workspace_role(workspace_id, 'member'))
+    END
+  );
+
+CREATE POLICY "Workspace members can view items on workspace tasks"
+  ON public.task_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id AND public.has_workspace_role(tasks.workspace_id)
+    )
+  );
+
+CREATE POLICY "Workspace members can edit items on workspace tasks"
+  ON public.task_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id AND public.has_workspace_role(tasks.workspace_id, 'member')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id AND public.has_workspace_role(tasks.workspace_id, 'member')
+    )
+  );
+
+-- Members can edit workspace tasks assigned to them like any other workspace task
+CREATE OR REPLACE FUNCTION public.restrict_assignee_task_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() = OLD.assignee_id
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND NOT public.has_workspace_role(OLD.workspace_id, 'member')
+    AND (to_jsonb(NEW) - 'completed' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'completed' - 'updated_at')
+  THEN
+    RAISE EXCEPTION 'Only the task owner can change this task; assignees can only complete it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fellow workspace members can be assigned tasks too
+CREATE OR REPLACE FUNCTION public.get_task_collaborators()
+RETURNS TABLE (id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.id <> auth.uid()
+    AND u.id IN (
+      SELECT assignee_id FROM public.tasks WHERE user_id = auth.uid()
+      UNION
+      SELECT user_id FROM public.tasks WHERE assignee_id = auth.uid()
+      UNION
+      SELECT others.user_id
+      FROM public.workspace_members mine
+      JOIN public.workspace_members others ON others.workspace_id = mine.workspace_id
+      WHERE mine.user_id = auth.uid()
+    )
+  ORDER BY u.email;
+$$;
+
+-- Create a workspace owned by the caller
+CREATE OR REPLACE FUNCTION public.create_workspace(workspace_name text)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES (trim(workspace_name), auth.uid())
+  RETURNING * INTO result;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (result.id, auth.uid(), 'owner');
+
+  RETURN result;
+END;
+$$;
+
+-- Members of a workspace with their email addresses, for the members dialog
+CREATE OR REPLACE FUNCTION public.get_workspace_members(target_workspace_id uuid)
+RETURNS TABLE (user_id uuid, email text, role text, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, u.email::text, m.role, m.created_at
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.workspace_id = target_workspace_id
+    AND public.has_workspace_role(target_workspace_id)
+  ORDER BY array_position(ARRAY['owner', 'admin', 'member', 'viewer'], m.role), u.email;
+$$;
+
+-- What an invitation link is for, so the invitee can see it before accepting
+CREATE OR REPLACE FUNCTION public.get_workspace_invitation(invitation_token text)
+RETURNS TABLE (
+  workspace_id uuid,
+  workspace_name text,
+  email text,
+  role text,
+  invited_by_email text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.workspace_id, w.name, i.email, i.role, u.email::text, i.expires_at, i.accepted_at
+  FROM public.workspace_invitations i
+  JOIN public.workspaces w ON w.id = i.workspace_id
+  LEFT JOIN auth.users u ON u.id = i.invited_by
+  WHERE i.token = invitation_token;
+$$;
+
+-- Join the workspace an invitation is for. Only the invited address can accept, once,
+-- before the invitation expires. Returns the workspace id.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invitation_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.workspace_invitations;
+  caller_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation FROM public.workspace_invitations WHERE token = invitation_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation does not exist or was revoked';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  SELECT email INTO caller_email FROM auth.users WHERE id = auth.uid();
+  IF lower(caller_email) IS DISTINCT FROM lower(invitation.email) THEN
+    RAISE EXCEPTION 'This invitation was sent to %', invitation.email;
+  END IF;
+
+  -- Someone who is already a member keeps their role
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE public.workspace_invitations SET accepted_at = now() WHERE id = invitation.id;
+
+  RETURN invitation.workspace_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_workspace(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_workspace_members(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_workspace_invitation(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_workspace_invitation(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_workspace(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_workspace_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_workspace_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_workspace_invitation(text) TO authenticated;
@@ -0,0 +1,122 @@
+-- Discussion on a task. `mentions` holds the users @mentioned in the body; each of them
+-- who can see the task gets a task-mention email.
+CREATE TABLE public.task_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 5000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_comments_task_id ON public.task_comments(task_id, created_at);
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries on tasks go through its own policies, so comments follow task access:
+-- owners, assignees and workspace members
+CREATE POLICY "Users can view comments on tasks they can see"
+  ON public.task_comments
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_comments.task_id));
+
+-- Workspace viewers can read the discussion but not join it
+CREATE POLICY "Users can comment on tasks they can see"
+  ON public.task_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_comments.task_id
+        AND (tasks.workspace_id IS NULL OR public.has_workspace_role(tasks.workspace_id, 'member'))
+    )
+  );
+
+CREATE POLICY "Users can delete their own comments"
+  ON public.task_comments
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Everyone with access to a task: its owner, its assignee and, for workspace tasks, the
+-- workspace's members
+CREATE OR REPLACE FUNCTION public.task_participant_ids(target_task_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM public.tasks WHERE id = target_task_id
+  UNION
+  SELECT assignee_id FROM public.tasks WHERE id = target_task_id AND assignee_id IS NOT NULL
+  UNION
+  SELECT m.user_id
+  FROM public.tasks t
+  JOIN public.workspace_members m ON m.workspace_id = t.workspace_id
+  WHERE t.id = target_task_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_participant_ids(uuid) FROM PUBLIC, anon, authenticated;
+
+-- People who can be @mentioned on a task, the caller included, with their email addresses.
+-- Empty unless the caller is one of them.
+CREATE OR REPLACE FUNCTION public.get_task_participants(target_task_id uuid)
+RETURNS TABLE (id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.id IN (SELECT public.task_participant_ids(target_task_id))
+    AND auth.uid() IN (SELECT public.task_participant_ids(target_task_id))
+  ORDER BY u.email;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_task_participants(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_task_participants(uuid) TO authenticated;
+
+-- task-mention to everyone mentioned who can see the task, except the author
+CREATE OR REPLACE FUNCTION public.enqueue_task_mention_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author_email text;
+  task_name text;
+  recipient_id uuid;
+BEGIN
+  SELECT email INTO author_email FROM auth.users WHERE id = NEW.user_id;
+  SELECT name INTO task_name FROM public.tasks WHERE id = NEW.task_id;
+
+  FOR recipient_id IN
+    SELECT DISTINCT mentioned
+    FROM unnest(NEW.mentions) AS mentioned
+    WHERE mentioned <> NEW.user_id
+      AND mentioned IN (SELECT public.task_participant_ids(NEW.task_id))
+  LOOP
+    PERFORM public.enqueue_task_email(
+      NEW.user_id,
+      recipient_id,
+      'task-mention',
+      author_email || ' mentioned you on ' || task_name,
+      jsonb_build_object(
+        'taskName', task_name,
+        'mentionedBy', author_email,
+        'comment', NEW.body
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_task_mention_emails
+  AFTER INSERT ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_task_mention_emails();
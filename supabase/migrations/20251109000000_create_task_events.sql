@@ -0,0 +1,108 @@
+-- Audit trail of task changes. Each row is one insert or update of a task with the fields
+-- that changed, as { "field": { "old": ..., "new": ... } }.
+--   actor 'user'   - a signed-in user (actor_id) changed the task from the app
+--   actor 'ai'     - prioritize-task set the priority (see set_ai_priority)
+--   actor 'system' - any other server-side write, e.g. tasks created from inbound email
+CREATE TABLE public.task_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'updated')),
+  actor TEXT NOT NULL CHECK (actor IN ('user', 'ai', 'system')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_events_task_id ON public.task_events(task_id, created_at);
+
+ALTER TABLE public.task_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; readable by everyone who can see the task
+CREATE POLICY "Users can view the history of tasks they can see"
+  ON public.task_events
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_events.task_id));
+
+CREATE OR REPLACE FUNCTION public.record_task_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- updated_at, created_at and the recurrence bookkeeping are left out on purpose
+  tracked_fields text[] := ARRAY[
+    'name', 'description', 'completed', 'priority', 'priority_reasoning', 'priority_source',
+    'due_date', 'due_at', 'recurrence_rule', 'project_id', 'tags', 'assignee_id', 'workspace_id'
+  ];
+  old_row jsonb := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+  new_row jsonb := to_jsonb(NEW);
+  field text;
+  diff jsonb := '{}'::jsonb;
+  event_actor text;
+BEGIN
+  FOREACH field IN ARRAY tracked_fields LOOP
+    IF TG_OP = 'INSERT' THEN
+      -- A new task records the fields it was created with
+      IF new_row -> field IS NOT NULL AND new_row -> field <> 'null'::jsonb THEN
+        diff := diff || jsonb_build_object(field, jsonb_build_object('old', NULL, 'new', new_row -> field));
+      END IF;
+    ELSIF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      diff := diff || jsonb_build_object(field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field));
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  -- Set for the current transaction by callers that act on someone's behalf
+  event_actor := COALESCE(
+    NULLIF(current_setting('app.task_actor', true), ''),
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END
+  );
+
+  INSERT INTO public.task_events (task_id, event_type, actor, actor_id, changes)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+    event_actor,
+    CASE WHEN event_actor = 'user' THEN auth.uid() END,
+    diff
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_task_event
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_task_event();
+
+-- Used by prioritize-task so the AI's priority lands in the history with actor 'ai'
+CREATE OR REPLACE FUNCTION public.set_ai_priority(
+  target_task_id uuid,
+  new_priority text,
+  reasoning text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.task_actor', 'ai', true);
+
+  UPDATE public.tasks
+  SET priority = new_priority,
+      priority_reasoning = reasoning,
+      priority_source = 'ai'
+  WHERE id = target_task_id;
+
+  PERFORM set_config('app.task_actor', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_ai_priority(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_ai_priority(uuid, text, text) TO service_role;
@@ -0,0 +1,4 @@
+-- Stream task changes to open task lists so edits from other tabs, devices and edge
+-- functions (e.g. priorities from prioritize-task) show up without a reload. Realtime
+-- applies the tasks RLS policies, so each client only hears about tasks it can see.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
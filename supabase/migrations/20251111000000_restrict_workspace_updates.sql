@@ -0,0 +1,46 @@
+-- Admins changing a member's role must still be admins of the workspace afterwards, so a
+-- membership cannot be moved into a workspace the admin does not run
+DROP POLICY "Admins can change member roles" ON public.workspace_members;
+
+CREATE POLICY "Admins can change member roles"
+  ON public.workspace_members
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'admin') AND role <> 'owner')
+  WITH CHECK (public.has_workspace_role(workspace_id, 'admin') AND role <> 'owner');
+
+-- Only the role of a membership can change, never whose or which workspace's it is
+REVOKE UPDATE ON public.workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+-- The tasks update policy cannot compare old and new rows, so moves are checked here: a
+-- task keeps its owner, and only its owner or a workspace admin can take it out of a workspace
+CREATE OR REPLACE FUNCTION public.restrict_task_moves()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'The owner of a task cannot be changed';
+  END IF;
+
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    AND OLD.workspace_id IS NOT NULL
+    AND auth.uid() <> OLD.user_id
+    AND NOT public.has_workspace_role(OLD.workspace_id, 'admin')
+  THEN
+    RAISE EXCEPTION 'Only the task owner or a workspace admin can move this task';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_task_moves
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_task_moves();
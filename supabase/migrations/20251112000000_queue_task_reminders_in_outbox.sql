@@ -0,0 +1,8 @@
+-- Reminders that arrive during the recipient's quiet hours wait in the outbox until the
+-- quiet hours end: 'queued', with email_outbox_id pointing at the queued email
+ALTER TABLE public.task_reminders
+  ADD COLUMN email_outbox_id UUID REFERENCES public.email_outbox(id) ON DELETE SET NULL;
+ALTER TABLE public.task_reminders DROP CONSTRAINT IF EXISTS task_reminders_status_check;
+ALTER TABLE public.task_reminders
+  ADD CONSTRAINT task_reminders_status_check
+  CHECK (status IN ('pending', 'queued', 'sent', 'failed', 'skipped'));
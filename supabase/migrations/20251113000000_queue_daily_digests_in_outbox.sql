@@ -0,0 +1,8 @@
+-- Digests that arrive during the recipient's quiet hours wait in the outbox until the
+-- quiet hours end: 'queued', with email_outbox_id pointing at the queued email
+ALTER TABLE public.daily_digests
+  ADD COLUMN email_outbox_id UUID REFERENCES public.email_outbox(id) ON DELETE SET NULL;
+ALTER TABLE public.daily_digests DROP CONSTRAINT IF EXISTS daily_digests_status_check;
+ALTER TABLE public.daily_digests
+  ADD CONSTRAINT daily_digests_status_check
+  CHECK (status IN ('pending', 'queued', 'sent', 'failed', 'skipped'));
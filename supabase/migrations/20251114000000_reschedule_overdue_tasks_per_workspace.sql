@@ -0,0 +1,37 @@
+-- "Reschedule all" and auto-rollover move the overdue tasks of the list they act on: one
+-- workspace's, or the caller's personal tasks when `target_workspace_id` is null. Personal
+-- tasks someone else assigned to the caller stay with their owner's schedule.
+DROP FUNCTION public.reschedule_overdue_tasks(date, date, text);
+
+CREATE OR REPLACE FUNCTION public.reschedule_overdue_tasks(
+  before_date date,
+  target_date date,
+  time_zone text,
+  target_workspace_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  moved integer;
+BEGIN
+  UPDATE public.tasks
+  SET
+    due_date = target_date,
+    due_at = CASE
+      WHEN due_at IS NULL THEN NULL
+      ELSE (target_date + (due_at AT TIME ZONE time_zone)::time) AT TIME ZONE time_zone
+    END
+  WHERE CASE WHEN target_workspace_id IS NULL
+      THEN workspace_id IS NULL AND user_id = auth.uid()
+      ELSE workspace_id = target_workspace_id
+    END
+    AND completed = false
+    AND due_date < before_date;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$;
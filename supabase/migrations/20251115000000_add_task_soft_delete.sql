@@ -0,0 +1,284 @@
+-- Deleting a task only marks it deleted, so "Undo" brings it back with its checklist,
+-- comments and history intact. Deleted tasks are left out everywhere tasks are listed and
+-- are removed for good after a day.
+ALTER TABLE public.tasks
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_tasks_deleted_at ON public.tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- A DELETE that passed the delete policy marks the task instead. Deletes cascading from a
+-- user or workspace, and deleting a task that is already marked, remove the row.
+CREATE OR REPLACE FUNCTION public.soft_delete_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR OLD.deleted_at IS NOT NULL THEN
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.tasks SET deleted_at = now() WHERE id = OLD.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER soft_delete_task
+  BEFORE DELETE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.soft_delete_task();
+
+-- The update policy lets every member edit workspace tasks, so deleting and restoring
+-- through an update is ruled out here: only the functions above and below may do it
+CREATE OR REPLACE FUNCTION public.restrict_deleted_task_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF OLD.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'This task was deleted';
+    END IF;
+
+    IF NEW.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Delete the task instead of marking it deleted';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_deleted_task_updates
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_deleted_task_updates();
+
+-- Undo a delete. Allowed for whoever could have deleted the task.
+CREATE OR REPLACE FUNCTION public.restore_task(target_task_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks
+  SET deleted_at = NULL
+  WHERE id = target_task_id
+    AND deleted_at IS NOT NULL
+    AND CASE WHEN workspace_id IS NULL
+      THEN auth.uid() = user_id
+      ELSE public.has_workspace_role(workspace_id, 'admin')
+        OR (auth.uid() = user_id AND public.has_workspace_role(workspace_id, 'member'))
+    END;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found or already removed';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_task(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_task(uuid) TO authenticated;
+
+-- Functions that read tasks now skip deleted ones
+CREATE OR REPLACE FUNCTION public.get_user_tags()
+RETURNS TABLE (tag text, usage_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT unnest(tags) AS tag, count(*) AS usage_count
+  FROM public.tasks
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NULL
+  GROUP BY 1
+  ORDER BY 2 DESC, 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  search_query text,
+  include_completed boolean DEFAULT false,
+  priority_filter text[] DEFAULT NULL,
+  due_from date DEFAULT NULL,
+  due_to date DEFAULT NULL,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  priority text,
+  due_date date,
+  completed boolean,
+  project_id uuid,
+  rank real,
+  name_highlight text,
+  description_highlight text,
+  reasoning_highlight text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS tsq
+    FROM unnest(regexp_split_to_array(
+      trim(regexp_replace(lower(search_query), '[^[:alnum:]]+', ' ', 'g')), '\s+'
+    )) AS word
+    WHERE word <> ''
+  ),
+  options AS (
+    SELECT format('StartSel=%s, StopSel=%s', chr(2), chr(3)) AS base
+  )
+  SELECT
+    t.id,
+    t.name,
+    t.description,
+    t.priority,
+    t.due_date,
+    t.completed,
+    t.project_id,
+    ts_rank(public.task_search_vector(t.name, t.description, t.priority_reasoning), query.tsq) AS rank,
+    ts_headline('english', t.name, query.tsq, options.base || ', HighlightAll=true'),
+    ts_headline('english', t.description, query.tsq, options.base || ', MaxWords=20, MinWords=8'),
+    ts_headline('english', t.priority_reasoning, query.tsq, options.base || ', MaxWords=15, MinWords=5')
+  FROM public.tasks t, query, options
+  WHERE public.task_search_vector(t.name, t.description, t.priority_reasoning) @@ query.tsq
+    AND t.deleted_at IS NULL
+    AND (include_completed OR NOT t.completed)
+    AND (priority_filter IS NULL OR t.priority = ANY(priority_filter))
+    AND (due_from IS NULL OR t.due_date >= due_from)
+    AND (due_to IS NULL OR t.due_date <= due_to)
+  ORDER BY rank DESC, t.created_at DESC
+  LIMIT result_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reschedule_overdue_tasks(
+  before_date date,
+  target_date date,
+  time_zone text,
+  target_workspace_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  moved integer;
+BEGIN
+  UPDATE public.tasks
+  SET
+    due_date = target_date,
+    due_at = CASE
+      WHEN due_at IS NULL THEN NULL
+      ELSE (target_date + (due_at AT TIME ZONE time_zone)::time) AT TIME ZONE time_zone
+    END
+  WHERE CASE WHEN target_workspace_id IS NULL
+      THEN workspace_id IS NULL AND user_id = auth.uid()
+      ELSE workspace_id = target_workspace_id
+    END
+    AND deleted_at IS NULL
+    AND completed = false
+    AND due_date < before_date;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_due_task_reminders()
+RETURNS TABLE (
+  task_id uuid,
+  user_id uuid,
+  email text,
+  name text,
+  description text,
+  due_date date,
+  due_at timestamptz,
+  time_zone text,
+  due_for timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    candidate.task_id,
+    candidate.user_id,
+    candidate.email,
+    candidate.name,
+    candidate.description,
+    candidate.due_date,
+    candidate.due_at,
+    candidate.time_zone,
+    candidate.due_for
+  FROM (
+    SELECT
+      t.id AS task_id,
+      t.user_id,
+      u.email::text,
+      t.name,
+      t.description,
+      t.due_date,
+      t.due_at,
+      coalesce(p.time_zone, 'UTC') AS time_zone,
+      coalesce(
+        t.due_at,
+        ((t.due_date + 1)::timestamp AT TIME ZONE coalesce(p.time_zone, 'UTC'))
+      ) AS due_for,
+      p.reminder_window_hours
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.user_id
+    JOIN auth.users u ON u.id = t.user_id
+    WHERE public.notification_enabled(t.user_id, 'task-reminder')
+      AND t.deleted_at IS NULL
+      AND NOT t.completed
+      AND t.due_date IS NOT NULL
+      AND u.email IS NOT NULL
+  ) AS candidate
+  WHERE candidate.due_for > now()
+    AND candidate.due_for <= now() + make_interval(hours => candidate.reminder_window_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.task_reminders r
+      WHERE r.task_id = candidate.task_id AND r.due_for = candidate.due_for
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_task_collaborators()
+RETURNS TABLE (id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.id <> auth.uid()
+    AND u.id IN (
+      SELECT assignee_id FROM public.tasks WHERE user_id = auth.uid() AND deleted_at IS NULL
+      UNION
+      SELECT user_id FROM public.tasks WHERE assignee_id = auth.uid() AND deleted_at IS NULL
+      UNION
+      SELECT others.user_id
+      FROM public.workspace_members mine
+      JOIN public.workspace_members others ON others.workspace_id = mine.workspace_id
+      WHERE mine.user_id = auth.uid()
+    )
+  ORDER BY u.email;
+$$;
+
+-- Remove deleted tasks once nobody can undo the delete anymore
+SELECT cron.schedule(
+  'purge-deleted-tasks',
+  '0 * * * *',
+  $$
+  DELETE FROM public.tasks WHERE deleted_at < now() - interval '1 day';
+  $$
+);
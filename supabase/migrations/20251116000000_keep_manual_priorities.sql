@@ -0,0 +1,36 @@
+-- A priority picked by hand, also while the AI was still deciding, is kept unless `force`.
+-- Returns whether the task was updated.
+DROP FUNCTION public.set_ai_priority(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.set_ai_priority(
+  target_task_id uuid,
+  new_priority text,
+  reasoning text,
+  force boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated boolean;
+BEGIN
+  PERFORM set_config('app.task_actor', 'ai', true);
+
+  UPDATE public.tasks
+  SET priority = new_priority,
+      priority_reasoning = reasoning,
+      priority_source = 'ai'
+  WHERE id = target_task_id
+    AND (priority_source <> 'manual' OR force);
+
+  updated := FOUND;
+  PERFORM set_config('app.task_actor', '', true);
+
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_ai_priority(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_ai_priority(uuid, text, text, boolean) TO service_role;
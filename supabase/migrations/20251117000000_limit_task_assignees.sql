@@ -0,0 +1,32 @@
+-- Tasks can only be assigned to people the caller already works with: collaborators on
+-- shared tasks and members of the caller's workspaces (see get_task_collaborators). New
+-- people join through a workspace invitation they accept, so an assignment never emails a
+-- stranger and nobody can find out which addresses have an account.
+DROP FUNCTION public.find_user_by_email(text);
+
+CREATE OR REPLACE FUNCTION public.restrict_task_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR NEW.assignee_id IS NULL
+    OR NEW.assignee_id = auth.uid()
+    OR (TG_OP = 'UPDATE' AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.get_task_collaborators() c WHERE c.id = NEW.assignee_id) THEN
+    RAISE EXCEPTION 'Tasks can only be assigned to people you share tasks or a workspace with';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_task_assignees
+  BEFORE INSERT OR UPDATE OF assignee_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_task_assignees();
@@ -0,0 +1,21 @@
+-- Updating a checklist item repeats the insert check, so an item cannot be moved onto a
+-- task that is neither the caller's nor assigned to them
+DROP POLICY "Users can update their own task items" ON public.task_items;
+
+CREATE POLICY "Users can update their own task items"
+  ON public.task_items
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_items.task_id
+        AND (tasks.user_id = auth.uid() OR tasks.assignee_id = auth.uid())
+    )
+  );
+
+-- Items go away with the account that created them, like every other user-owned row
+ALTER TABLE public.task_items
+  ADD CONSTRAINT task_items_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
@@ -0,0 +1,111 @@
+-- A deleted task takes its discussion and history with it until it is restored: no new
+-- comments, no mention emails and no AI priority for it
+DROP POLICY "Users can view comments on tasks they can see" ON public.task_comments;
+DROP POLICY "Users can comment on tasks they can see" ON public.task_comments;
+DROP POLICY "Users can view the history of tasks they can see" ON public.task_events;
+
+CREATE POLICY "Users can view comments on tasks they can see"
+  ON public.task_comments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_comments.task_id AND tasks.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can comment on tasks they can see"
+  ON public.task_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_comments.task_id
+        AND tasks.deleted_at IS NULL
+        AND (tasks.workspace_id IS NULL OR public.has_workspace_role(tasks.workspace_id, 'member'))
+    )
+  );
+
+CREATE POLICY "Users can view the history of tasks they can see"
+  ON public.task_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_events.task_id AND tasks.deleted_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.enqueue_task_mention_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author_email text;
+  task_name text;
+  recipient_id uuid;
+BEGIN
+  SELECT name INTO task_name FROM public.tasks WHERE id = NEW.task_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT email INTO author_email FROM auth.users WHERE id = NEW.user_id;
+
+  FOR recipient_id IN
+    SELECT DISTINCT mentioned
+    FROM unnest(NEW.mentions) AS mentioned
+    WHERE mentioned <> NEW.user_id
+      AND mentioned IN (SELECT public.task_participant_ids(NEW.task_id))
+  LOOP
+    PERFORM public.enqueue_task_email(
+      NEW.user_id,
+      recipient_id,
+      'task-mention',
+      author_email || ' mentioned you on ' || task_name,
+      jsonb_build_object(
+        'taskName', task_name,
+        'mentionedBy', author_email,
+        'comment', NEW.body
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the definer, past restrict_deleted_task_updates, so it checks for itself
+CREATE OR REPLACE FUNCTION public.set_ai_priority(
+  target_task_id uuid,
+  new_priority text,
+  reasoning text,
+  force boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated boolean;
+BEGIN
+  PERFORM set_config('app.task_actor', 'ai', true);
+
+  UPDATE public.tasks
+  SET priority = new_priority,
+      priority_reasoning = reasoning,
+      priority_source = 'ai'
+  WHERE id = target_task_id
+    AND deleted_at IS NULL
+    AND (priority_source <> 'manual' OR force);
+
+  updated := FOUND;
+  PERFORM set_config('app.task_actor', '', true);
+
+  RETURN updated;
+END;
+$$;
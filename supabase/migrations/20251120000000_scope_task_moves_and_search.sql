@@ -0,0 +1,98 @@
+-- The tasks update policy only lets the owner make a task personal again, so the move check
+-- agrees: the owner can take a task out of a workspace, and the owner or an admin of its
+-- workspace can move it to another workspace
+CREATE OR REPLACE FUNCTION public.restrict_task_moves()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'The owner of a task cannot be changed';
+  END IF;
+
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    AND OLD.workspace_id IS NOT NULL
+    AND auth.uid() <> OLD.user_id
+  THEN
+    IF NEW.workspace_id IS NULL THEN
+      RAISE EXCEPTION 'Only the task owner can take this task out of its workspace';
+    END IF;
+
+    IF NOT public.has_workspace_role(OLD.workspace_id, 'admin') THEN
+      RAISE EXCEPTION 'Only the task owner or a workspace admin can move this task';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Search covers the tasks of the open workspace, or the personal tasks when
+-- `target_workspace_id` is null, like the task lists
+DROP FUNCTION public.search_tasks(text, boolean, text[], date, date, integer);
+
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  search_query text,
+  include_completed boolean DEFAULT false,
+  priority_filter text[] DEFAULT NULL,
+  due_from date DEFAULT NULL,
+  due_to date DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  target_workspace_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  priority text,
+  due_date date,
+  completed boolean,
+  project_id uuid,
+  rank real,
+  name_highlight text,
+  description_highlight text,
+  reasoning_highlight text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS tsq
+    FROM unnest(regexp_split_to_array(
+      trim(regexp_replace(lower(search_query), '[^[:alnum:]]+', ' ', 'g')), '\s+'
+    )) AS word
+    WHERE word <> ''
+  ),
+  options AS (
+    SELECT format('StartSel=%s, StopSel=%s', chr(2), chr(3)) AS base
+  )
+  SELECT
+    t.id,
+    t.name,
+    t.description,
+    t.priority,
+    t.due_date,
+    t.completed,
+    t.project_id,
+    ts_rank(public.task_search_vector(t.name, t.description, t.priority_reasoning), query.tsq) AS rank,
+    ts_headline('english', t.name, query.tsq, options.base || ', HighlightAll=true'),
+    ts_headline('english', t.description, query.tsq, options.base || ', MaxWords=20, MinWords=8'),
+    ts_headline('english', t.priority_reasoning, query.tsq, options.base || ', MaxWords=15, MinWords=5')
+  FROM public.tasks t, query, options
+  WHERE public.task_search_vector(t.name, t.description, t.priority_reasoning) @@ query.tsq
+    AND t.deleted_at IS NULL
+    AND t.workspace_id IS NOT DISTINCT FROM target_workspace_id
+    AND (include_completed OR NOT t.completed)
+    AND (priority_filter IS NULL OR t.priority = ANY(priority_filter))
+    AND (due_from IS NULL OR t.due_date >= due_from)
+    AND (due_to IS NULL OR t.due_date <= due_to)
+  ORDER BY rank DESC, t.created_at DESC
+  LIMIT result_limit;
+$$;
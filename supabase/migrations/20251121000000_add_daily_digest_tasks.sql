@@ -0,0 +1,33 @@
+-- The open tasks for a user's digest, picked like the app's task lists: their personal
+-- tasks, personal tasks assigned to them and the tasks of every workspace they belong to.
+-- Due on `digest_date`, undated, or overdue.
+CREATE OR REPLACE FUNCTION public.get_daily_digest_tasks(target_user_id uuid, digest_date date)
+RETURNS TABLE (
+  name text,
+  priority text,
+  priority_reasoning text,
+  due_date date,
+  due_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.name, t.priority, t.priority_reasoning, t.due_date, t.due_at
+  FROM public.tasks t
+  WHERE CASE WHEN t.workspace_id IS NULL
+      THEN target_user_id IN (t.user_id, t.assignee_id)
+      ELSE EXISTS (
+        SELECT 1 FROM public.workspace_members m
+        WHERE m.workspace_id = t.workspace_id AND m.user_id = target_user_id
+      )
+    END
+    AND t.deleted_at IS NULL
+    AND NOT t.completed
+    AND (t.due_date IS NULL OR t.due_date <= digest_date)
+  ORDER BY t.due_at ASC NULLS LAST, t.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_daily_digest_tasks(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_daily_digest_tasks(uuid, date) TO service_role;
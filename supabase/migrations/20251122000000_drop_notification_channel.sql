@@ -0,0 +1,37 @@
+-- Email is the only channel, so preferences no longer carry one
+DROP FUNCTION public.get_email_recipient_settings(text, text);
+
+-- Preference, time zone and language of the account owning `recipient_email`, used by the
+-- email pipeline before sending. No row is returned when the address has no account.
+CREATE FUNCTION public.get_email_recipient_settings(recipient_email text, template_name text)
+RETURNS TABLE (
+  user_id uuid,
+  enabled boolean,
+  quiet_hours_start smallint,
+  quiet_hours_end smallint,
+  time_zone text,
+  locale text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    public.notification_enabled(u.id, template_name),
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    coalesce(p.time_zone, 'UTC'),
+    coalesce(p.locale, 'en')
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  LEFT JOIN public.notification_preferences np ON np.user_id = u.id AND np.template = template_name
+  WHERE lower(u.email) = lower(recipient_email)
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_email_recipient_settings(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_email_recipient_settings(text, text) TO service_role;
+
+ALTER TABLE public.notification_preferences DROP COLUMN channel;